@@ -0,0 +1,114 @@
+// Offline stand-in for Google Publisher Tag (gpt.js), implementing the
+// parts of the googletag API the ad block uses. display() and refresh()
+// draw a labelled box the size of the slot's first size and fire
+// slotRenderEnded. Add ?ads=empty to the page URL to leave every slot
+// unfilled and exercise the collapse.
+(function () {
+  var empty = new URLSearchParams(window.location.search).get("ads") === "empty";
+  var googletag = window.googletag || { cmd: [] };
+  var queued = googletag.cmd || [];
+  var slots = [];
+  var listeners = { slotRenderEnded: [], impressionViewable: [] };
+  var renders = 0;
+
+  var fire = function (type, event) {
+    (listeners[type] || []).forEach(function (listener) {
+      listener(event);
+    });
+  };
+
+  var render = function (slot) {
+    var element = document.getElementById(slot.divId);
+    if (!element) {
+      return;
+    }
+    element.innerHTML = "";
+    setTimeout(function () {
+      if (slots.indexOf(slot) === -1) {
+        return;
+      }
+      if (!empty) {
+        renders += 1;
+        var size = slot.sizes[0];
+        var box = document.createElement("div");
+        box.style.width = size[0] + "px";
+        box.style.height = size[1] + "px";
+        box.style.background = renders % 2 ? "#d7e8f7" : "#f7e3d7";
+        box.style.display = "flex";
+        box.style.alignItems = "center";
+        box.style.justifyContent = "center";
+        box.style.font = "12px sans-serif";
+        box.textContent = "Mock ad " + slot.adUnitPath + " " + size[0] + "x" + size[1] + " #" + renders;
+        element.appendChild(box);
+      }
+      fire("slotRenderEnded", { slot: slot, isEmpty: empty, size: empty ? null : slot.sizes[0] });
+    }, 200);
+  };
+
+  var pubads = {
+    addEventListener: function (type, listener) {
+      (listeners[type] = listeners[type] || []).push(listener);
+      return pubads;
+    },
+    removeEventListener: function (type, listener) {
+      listeners[type] = (listeners[type] || []).filter(function (other) {
+        return other !== listener;
+      });
+      return true;
+    },
+    refresh: function (list) {
+      (list || slots).forEach(render);
+    },
+  };
+
+  googletag.apiReady = true;
+  googletag.pubads = function () {
+    return pubads;
+  };
+  googletag.enableServices = function () {};
+  googletag.defineSlot = function (adUnitPath, sizes, divId) {
+    var slot = {
+      adUnitPath: adUnitPath,
+      sizes: sizes,
+      divId: divId,
+      targeting: {},
+      addService: function () {
+        return slot;
+      },
+      setTargeting: function (key, value) {
+        slot.targeting[key] = [].concat(value);
+        return slot;
+      },
+      getSlotElementId: function () {
+        return divId;
+      },
+    };
+    slots.push(slot);
+    return slot;
+  };
+  googletag.destroySlots = function (list) {
+    slots = list
+      ? slots.filter(function (slot) {
+          return list.indexOf(slot) === -1;
+        })
+      : [];
+    return true;
+  };
+  googletag.display = function (divId) {
+    slots
+      .filter(function (slot) {
+        return slot.divId === divId;
+      })
+      .forEach(render);
+  };
+  // Like GPT: run what was queued before load, then run pushes at once.
+  googletag.cmd = {
+    push: function (command) {
+      command();
+    },
+  };
+  window.googletag = googletag;
+  queued.forEach(function (command) {
+    command();
+  });
+})();
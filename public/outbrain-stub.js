@@ -0,0 +1,36 @@
+// Offline stand-in for the Outbrain partner script
+// (widgets.outbrain.com/outbrain.js). Like the real one it fills every
+// unprocessed .OUTBRAIN container on load and again whenever
+// OBR.extern.researchWidget() is called, here with placeholder
+// recommendations. Add ?outbrain=fail to the page URL to leave the
+// containers empty and exercise the widget's timeout fallback.
+(function () {
+  var fail = new URLSearchParams(window.location.search).get("outbrain") === "fail";
+
+  var fill = function (container) {
+    var widgetId = container.getAttribute("data-widget-id");
+    for (var i = 1; i <= 3; i++) {
+      var link = document.createElement("a");
+      link.href = "#outbrain-" + widgetId + "-" + i;
+      link.textContent = "Recommended story " + i + " (" + widgetId + ")";
+      link.style.display = "block";
+      link.style.padding = "4px 0";
+      container.appendChild(link);
+    }
+  };
+
+  var researchWidget = function () {
+    var containers = document.querySelectorAll(".OUTBRAIN:not([data-ob-processed])");
+    containers.forEach(function (container) {
+      container.setAttribute("data-ob-processed", "true");
+      if (!fail) {
+        setTimeout(function () {
+          fill(container);
+        }, 300);
+      }
+    });
+  };
+
+  window.OBR = { extern: { researchWidget: researchWidget } };
+  researchWidget();
+})();
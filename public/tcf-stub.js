@@ -0,0 +1,55 @@
+// Minimal IAB TCF v2 CMP stand-in for local testing. It answers
+// __tcfapi("addEventListener", 2, ...) like a real CMP would.
+//
+// Start state comes from the page URL: ?consent=granted (the default),
+// ?consent=denied, or ?consent=pending (no answer until the user acts).
+// Simulate the user changing their choice from the console with
+// tcfStub.update(true) or tcfStub.update(false).
+(function () {
+  var state = new URLSearchParams(window.location.search).get("consent") || "granted";
+  var listeners = [];
+  var nextId = 1;
+
+  var tcData = function (eventStatus, listenerId) {
+    var granted = state === "granted";
+    var consents = {};
+    for (var purpose = 1; purpose <= 10; purpose++) {
+      consents[purpose] = granted;
+    }
+    return {
+      tcString: "stub",
+      gdprApplies: true,
+      eventStatus: eventStatus,
+      listenerId: listenerId,
+      purpose: { consents: consents, legitimateInterests: {} },
+    };
+  };
+
+  window.__tcfapi = function (command, version, callback, parameter) {
+    if (version !== 2) {
+      callback(null, false);
+    } else if (command === "addEventListener") {
+      var id = nextId++;
+      listeners.push({ id: id, callback: callback });
+      setTimeout(function () {
+        callback(tcData(state === "pending" ? "cmpuishown" : "tcloaded", id), true);
+      }, 0);
+    } else if (command === "removeEventListener") {
+      listeners = listeners.filter(function (l) {
+        return l.id !== parameter;
+      });
+      callback(true);
+    } else {
+      callback(null, false);
+    }
+  };
+
+  window.tcfStub = {
+    update: function (granted) {
+      state = granted ? "granted" : "denied";
+      listeners.forEach(function (l) {
+        l.callback(tcData("useractioncomplete", l.id), true);
+      });
+    },
+  };
+})();
@@ -1,41 +1,43 @@
 import Section from "./components/Section";
-import {useContext, useEffect } from "react";
+import ArticleOverlay from "./components/ArticleOverlay";
+import {useContext, useEffect, useMemo } from "react";
 import SoftboxContext from "./store/softbox-context";
 import { ValidBlockConfig, PageConfig  } from "./definition";
-import { layout } from "./dummy-data/layout";
-import { page } from "./dummy-data/page-config";
+import { assignCategories } from "./category-assignment";
+import { createRng } from "./rng";
 
-const getRandomInteger = (maxNumber: number)=>{
-  return Math.floor(Math.random() * (maxNumber + 1)); 
-}
-const generateTemplate = (layout: ValidBlockConfig[], page:PageConfig) =>{
-  let template: ValidBlockConfig[] = []; 
 
-  for (let item of layout){ 
-    let random = getRandomInteger(page.categories.length-1)
-    let copy = {...item}; 
-    if(copy.blockType === 'fotoscape_block'){
-      copy.settings.category=page.categories[random]
-    }
-    template.push(copy); 
-  }
-  return template; 
-}
-
-
-function App() {
+const App: React.FC<{
+  layout: ValidBlockConfig[];
+  page: PageConfig;
+}> = ({ layout, page }) => {
   const ctx = useContext(SoftboxContext);
-  const template: ValidBlockConfig[] = generateTemplate(layout, page)
+  const { getUserWeights, seed } = ctx;
+  const template: ValidBlockConfig[] = useMemo(
+    () => assignCategories(layout, page, getUserWeights(), createRng(seed, "assignment").next),
+    [layout, page, getUserWeights, seed]
+  );
 
 
+  // Blocks may name a category the page doesn't list, so fetch the
+  // template's categories as well as the page's.
   useEffect(() => {
-    for(let category of page.categories){
-      ctx.fetchCategory(category); 
+    const categories = new Set(page.categories);
+    for (const block of template) {
+      if (block.blockType === "fotoscape_block" && block.settings.category) {
+        categories.add(block.settings.category);
+      }
     }
+    categories.forEach((category) => ctx.fetchCategory(category));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  return <Section template={template} />;
-}
+  }, [page, template]);
+
+  return (
+    <>
+      <Section template={template} />
+      <ArticleOverlay />
+    </>
+  );
+};
 
 export default App;
@@ -0,0 +1,50 @@
+import { useEffect, useMemo } from "react";
+import App from "./App";
+import { resolveContentSource } from "./content-source";
+import { createEventBus } from "./analytics/bus";
+import { Sink, createSink } from "./analytics/sinks";
+import useTemplate from "./hooks/use-template";
+import { SoftboxContextProvider } from "./store/softbox-context";
+import { WidgetConfig } from "./widget-config";
+import { resolveLocale, textDirection } from "./locale";
+
+const Widget: React.FC<{
+  config: WidgetConfig;
+  order?: number; // Position among the page's widgets.
+}> = ({ config, order = 0 }) => {
+  const { layout, page } = useTemplate(config);
+  const source = useMemo(() => resolveContentSource(page.source, page.feedKey), [page]);
+  const bus = useMemo(() => {
+    const sinkConfigs = page.analytics ? page.analytics.sinks : [{ type: "dataLayer" as const }];
+    const sinks = sinkConfigs.map(createSink).filter((sink): sink is Sink => sink !== null);
+    return createEventBus(config.widgetId, sinks);
+  }, [page, config.widgetId]);
+  // A new template brings a new bus; the old one stops listening.
+  useEffect(() => () => bus.dispose(), [bus]);
+  const locale = useMemo(() => resolveLocale(config.locale), [config.locale]);
+  const coordination = useMemo(() => {
+    if (!page.coordinate) {
+      return null;
+    }
+    const group = page.coordinate === true ? "page" : page.coordinate;
+    return { group, widgetId: config.widgetId, order };
+  }, [page, config.widgetId, order]);
+  return (
+    <SoftboxContextProvider
+      source={source}
+      seed={config.seed}
+      impressions={page.impressions}
+      history={page.history}
+      coordination={coordination}
+      locale={locale}
+      partners={page.partners}
+      bus={bus}
+    >
+      <div lang={locale} dir={textDirection(locale)}>
+        <App layout={layout} page={page} />
+      </div>
+    </SoftboxContextProvider>
+  );
+};
+
+export default Widget;
@@ -0,0 +1,66 @@
+import { loadScript } from "./script-loader";
+
+// The parts of the Google Publisher Tag (googletag) API the ad block
+// uses. Anything implementing them works, such as the offline mock in
+// public/gpt-mock.js.
+
+export interface GptSlot {
+  addService: (service: GptPubAds) => GptSlot;
+  setTargeting: (key: string, value: string | string[]) => GptSlot;
+  getSlotElementId: () => string;
+}
+
+export type GptSlotEvent = {
+  slot: GptSlot;
+  isEmpty?: boolean;
+};
+
+type GptEventType = "slotRenderEnded" | "impressionViewable";
+
+export interface GptPubAds {
+  addEventListener: (type: GptEventType, listener: (event: GptSlotEvent) => void) => void;
+  removeEventListener: (type: GptEventType, listener: (event: GptSlotEvent) => void) => void;
+  refresh: (slots?: GptSlot[]) => void;
+}
+
+export interface Googletag {
+  cmd: Array<() => void> | { push: (command: () => void) => void };
+  defineSlot: (adUnitPath: string, sizes: [number, number][], divId: string) => GptSlot | null;
+  destroySlots: (slots?: GptSlot[]) => boolean;
+  display: (divId: string) => void;
+  enableServices: () => void;
+  pubads: () => GptPubAds;
+}
+
+type GptWindow = Window & {
+  googletag?: Partial<Googletag> & { cmd: Googletag["cmd"]; apiReady?: boolean };
+};
+
+let servicesEnabled = false;
+let nextSlotId = 0;
+
+// A page-unique element id for an ad slot. Not React's useId(): every
+// widget is its own React root, so those ids repeat across widgets.
+export const newSlotId = () => {
+  nextSlotId += 1;
+  return `softbox-ad-${nextSlotId}`;
+};
+
+// Queue `command` to run once googletag has loaded, loading it (once
+// per page) from `url` unless the host page already has. Rejects if
+// the script fails to load.
+export const withGoogletag = async (url: string, timeoutMs: number, command: (googletag: Googletag) => void) => {
+  const w = window as GptWindow;
+  w.googletag = w.googletag || { cmd: [] };
+  w.googletag.cmd.push(() => {
+    const googletag = w.googletag as Googletag;
+    if (!servicesEnabled) {
+      servicesEnabled = true;
+      googletag.enableServices();
+    }
+    command(googletag);
+  });
+  if (!w.googletag.apiReady) {
+    await loadScript(url, timeoutMs);
+  }
+};
@@ -0,0 +1,49 @@
+import { allocateItems } from "./allocator";
+import { FotoscapeItem, ValidBlockConfig } from "./definition";
+
+const item = (uid: string): FotoscapeItem => ({
+  uid,
+  title: uid,
+  url: `https://fotoscapes.com/${uid}`,
+  imageUrl: "",
+  description: "",
+  interests: [],
+  previews: [],
+  images: [],
+});
+
+const block = (category: string | undefined, count: number): ValidBlockConfig => ({
+  blockType: "fotoscape_block",
+  settings: { layout: "list-small", category, count },
+});
+
+const uids = (lists: FotoscapeItem[][]) => lists.map((list) => list.map((entry) => entry.uid));
+
+describe("allocateItems", () => {
+  const content = {
+    news: ["a", "b", "c", "d"].map(item),
+    sports: ["s1", "b", "s2"].map(item),
+  };
+
+  it("gives each block the next unused items of its category", () => {
+    const template = [block("news", 2), block("news", 2), block("sports", 3)];
+    expect(uids(allocateItems(template, content))).toEqual([["a", "b"], ["c", "d"], ["s1", "s2"]]);
+  });
+
+  it("gives non-fotoscape blocks and unknown categories nothing", () => {
+    const ad = {
+      blockType: "ad_unit",
+      settings: { adUnitPath: "/1/unit", sizes: [[300, 250]] },
+    } as ValidBlockConfig;
+    expect(uids(allocateItems([ad, block("weather", 2), block(undefined, 2)], content))).toEqual([[], [], []]);
+  });
+
+  it("skips uids other widgets have taken", () => {
+    const taken = new Set(["a", "s1"]);
+    expect(uids(allocateItems([block("news", 2), block("sports", 2)], content, taken))).toEqual([
+      ["b", "c"],
+      ["s2"],
+    ]);
+    expect(taken).toEqual(new Set(["a", "s1"]));
+  });
+});
@@ -0,0 +1,34 @@
+import { FotoscapeItem, ItemList, ValidBlockConfig } from "./definition";
+
+// Hand every fotoscape block on a page its own items. Blocks are served
+// in template order, each taking the next items of its category in the
+// personalized order produced by choose(), skipping any uid an earlier
+// block already got - including uids that appear in more than one
+// sched. Uids in `taken` (shown by other widgets, see coordination.ts)
+// are skipped too. The result is indexed by template position;
+// non-fotoscape blocks get an empty list.
+export const allocateItems = (
+  template: ValidBlockConfig[],
+  content: { [category: string]: ItemList },
+  taken: Set<string> = new Set()
+): FotoscapeItem[][] => {
+  const used = new Set(taken);
+  return template.map((block) => {
+    if (block.blockType !== "fotoscape_block") {
+      return [];
+    }
+    const { category, count } = block.settings;
+    const available = (category && content[category]) || [];
+    const items: FotoscapeItem[] = [];
+    for (const item of available) {
+      if (items.length >= count) {
+        break;
+      }
+      if (!used.has(item.uid)) {
+        used.add(item.uid);
+        items.push(item);
+      }
+    }
+    return items;
+  });
+};
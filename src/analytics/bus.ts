@@ -0,0 +1,74 @@
+import { AnalyticsEvent, AnalyticsEventMap, AnalyticsEventName } from "./events";
+import { Sink } from "./sinks";
+import { PersonalizeEvent } from "../personalize";
+
+export interface EventBus {
+  widgetId: string;
+  sinks: Sink[];
+  emit: <K extends AnalyticsEventName>(
+    name: K,
+    payload: AnalyticsEventMap[K],
+    blockPosition?: number | null
+  ) => void;
+  flush: () => void;
+  dispose: () => void; // Flush and stop listening to the page.
+}
+
+// Create the event bus for one widget. Every event is stamped with the
+// widget id, block position and time, then handed to each sink. A sink
+// that throws is reported and skipped; it never breaks the widget.
+export const createEventBus = (widgetId: string, sinks: Sink[]): EventBus => {
+  const flush = () => {
+    for (const sink of sinks) {
+      try {
+        sink.flush?.();
+      } catch (err) {
+        console.error(`Analytics sink ${sink.name} failed to flush: ${(err as Error).message}`);
+      }
+    }
+  };
+
+  const emit: EventBus["emit"] = (name, payload, blockPosition = null) => {
+    const event = {
+      ...payload,
+      event: name,
+      widget_id: widgetId,
+      block_position: blockPosition,
+      timestamp: Date.now(),
+    } as AnalyticsEvent;
+    for (const sink of sinks) {
+      try {
+        sink.send([event]);
+      } catch (err) {
+        console.error(`Analytics sink ${sink.name} failed: ${(err as Error).message}`);
+      }
+    }
+  };
+
+  // Don't lose buffered events when the page goes away.
+  const visibilityHandler = () => {
+    if (document.visibilityState === "hidden") {
+      flush();
+    }
+  };
+  window.addEventListener("pagehide", flush);
+  document.addEventListener("visibilitychange", visibilityHandler);
+
+  const dispose = () => {
+    window.removeEventListener("pagehide", flush);
+    document.removeEventListener("visibilitychange", visibilityHandler);
+    flush();
+  };
+
+  return { widgetId, sinks, emit, flush, dispose };
+};
+
+// Forward an event logged by personalize.ts onto the bus.
+export const forwardPersonalizeEvent = (
+  bus: EventBus,
+  e: PersonalizeEvent,
+  blockPosition: number | null
+) => {
+  const { event, ...payload } = e;
+  bus.emit(event, payload as AnalyticsEventMap[typeof event], blockPosition);
+};
@@ -0,0 +1,54 @@
+import { ChosenLookbookEvent, ImpressionEvent, InterestsChosenEvent, SelectedListEvent } from "../personalize";
+
+// Payload of every analytics event, keyed by event name. The
+// personalization events keep the shape personalize.ts logs them in.
+export type AnalyticsEventMap = {
+  selectedList: Omit<SelectedListEvent, "event">;
+  chosenLookbook: Omit<ChosenLookbookEvent, "event">;
+  impression: Omit<ImpressionEvent, "event">;
+  interestsChosen: Omit<InterestsChosenEvent, "event">;
+  blockRendered: {
+    block_type: string;
+    layout?: string;
+    category?: string;
+    item_count: number;
+  };
+  itemClicked: {
+    lookbook: string;
+    item_position: number;
+    category?: string;
+  };
+  fetchFailed: {
+    category: string;
+    message: string;
+  };
+  blockFailed: {
+    block_type: string;
+    reason: string;
+  };
+  memeRevealed: {
+    lookbook: string;
+    item_position: number;
+    category: string;
+  };
+  memeNext: {
+    from: string; // Uid of the meme left behind.
+    lookbook: string; // Uid of the meme shown next.
+    revealed: boolean; // Whether the user revealed the one left behind.
+    item_position: number;
+    category: string;
+  };
+};
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+// Fields the bus adds to every event.
+export type EventContext = {
+  widget_id: string;
+  block_position: number | null; // Index of the block in the template.
+  timestamp: number;
+};
+
+export type AnalyticsEvent<K extends AnalyticsEventName = AnalyticsEventName> = {
+  [P in K]: { event: P } & AnalyticsEventMap[P] & EventContext;
+}[K];
@@ -0,0 +1,87 @@
+import { createEventBus } from "./bus";
+import { AnalyticsEvent } from "./events";
+import { batched, memorySink, sampled } from "./sinks";
+
+const event = (lookbook: string): AnalyticsEvent => ({
+  event: "itemClicked",
+  lookbook,
+  item_position: 0,
+  widget_id: "w1",
+  block_position: 0,
+  timestamp: 0,
+});
+
+const lookbooks = (events: AnalyticsEvent[]) => events.map((e) => ("lookbook" in e ? e.lookbook : null));
+
+describe("memorySink", () => {
+  it("keeps every event it is sent", () => {
+    const sink = memorySink();
+    sink.send([event("a")]);
+    sink.send([event("b"), event("c")]);
+    expect(lookbooks(sink.events)).toEqual(["a", "b", "c"]);
+  });
+
+  it("receives events from the bus with the widget context", () => {
+    const sink = memorySink();
+    const bus = createEventBus("w9", [sink]);
+    bus.emit("fetchFailed", { category: "news", message: "offline" }, 2);
+    expect(sink.events).toEqual([
+      expect.objectContaining({ event: "fetchFailed", category: "news", widget_id: "w9", block_position: 2 }),
+    ]);
+    bus.dispose();
+  });
+});
+
+describe("sampled", () => {
+  it("passes on the events whose draw falls under the rate", () => {
+    const sink = memorySink();
+    const draws = [0.1, 0.9, 0.4, 0.5];
+    const sampler = sampled(sink, 0.5, () => draws.shift()!);
+    sampler.send([event("a"), event("b"), event("c"), event("d")]);
+    expect(lookbooks(sink.events)).toEqual(["a", "c"]);
+  });
+
+  it("sends nothing when every event is dropped", () => {
+    const sink = { name: "spy", send: jest.fn() };
+    sampled(sink, 0, () => 0.5).send([event("a")]);
+    expect(sink.send).not.toHaveBeenCalled();
+  });
+});
+
+describe("batched", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sends full batches at once", () => {
+    const sink = memorySink();
+    const batcher = batched(sink, 2);
+    batcher.send([event("a")]);
+    expect(sink.events).toHaveLength(0);
+    batcher.send([event("b")]);
+    expect(lookbooks(sink.events)).toEqual(["a", "b"]);
+  });
+
+  it("sends what is left after flushMs", () => {
+    const sink = memorySink();
+    batched(sink, 10, 1000).send([event("a")]);
+    jest.advanceTimersByTime(999);
+    expect(sink.events).toHaveLength(0);
+    jest.advanceTimersByTime(1);
+    expect(lookbooks(sink.events)).toEqual(["a"]);
+  });
+
+  it("sends what is buffered on flush", () => {
+    const sink = memorySink();
+    const batcher = batched(sink, 10);
+    batcher.send([event("a"), event("b")]);
+    batcher.flush!();
+    expect(lookbooks(sink.events)).toEqual(["a", "b"]);
+    jest.runAllTimers();
+    expect(sink.events).toHaveLength(2);
+  });
+});
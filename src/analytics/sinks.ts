@@ -0,0 +1,164 @@
+import { AnalyticsEvent } from "./events";
+import { hasConsent } from "../consent";
+
+// A destination for analytics events. Sinks receive events in batches
+// (possibly of one) and may buffer them until flush().
+export interface Sink {
+  name: string;
+  send: (events: AnalyticsEvent[]) => void;
+  flush?: () => void;
+}
+
+export type SinkConfig = {
+  type: "dataLayer" | "beacon" | "console" | "memory";
+  url?: string; // Collector URL, required for "beacon".
+  sampleRate?: number; // Share of events kept, 0 to 1. Defaults to 1.
+  batchSize?: number; // Events buffered before sending. Defaults to 1.
+  flushMs?: number; // Longest time an event stays buffered.
+};
+
+// Push each event onto the Google Tag Manager dataLayer, if the page
+// has one.
+export const dataLayerSink = (): Sink => {
+  return {
+    name: "dataLayer",
+    send: (events) => {
+      const w = window as Window & { dataLayer?: unknown[] };
+      if (w.dataLayer) {
+        events.forEach((event) => w.dataLayer!.push(event));
+      }
+    },
+  };
+};
+
+// POST batches to a collector with navigator.sendBeacon, falling back to
+// a keepalive fetch where beacons aren't available or are refused.
+export const beaconSink = (url: string): Sink => {
+  return {
+    name: "beacon",
+    send: (events) => {
+      const body = JSON.stringify({ events });
+      if (navigator.sendBeacon && navigator.sendBeacon(url, body)) {
+        return;
+      }
+      fetch(url, { method: "POST", body, keepalive: true }).catch(() => {});
+    },
+  };
+};
+
+export const consoleSink = (): Sink => {
+  return {
+    name: "console",
+    send: (events) => events.forEach((event) => console.log("[softbox event]", event)),
+  };
+};
+
+// Keep events in memory, for tests and debugging.
+export const memorySink = (): Sink & { events: AnalyticsEvent[] } => {
+  const events: AnalyticsEvent[] = [];
+  return {
+    name: "memory",
+    events,
+    send: (batch) => {
+      events.push(...batch);
+    },
+  };
+};
+
+// Drop all but `rate` of the events passed to `sink`.
+export const sampled = (sink: Sink, rate: number, rand: () => number = Math.random): Sink => {
+  return {
+    ...sink,
+    send: (events) => {
+      const kept = events.filter(() => rand() < rate);
+      if (kept.length > 0) {
+        sink.send(kept);
+      }
+    },
+  };
+};
+
+// Buffer events and pass them on `size` at a time, or after `flushMs`
+// for whatever is left.
+export const batched = (sink: Sink, size: number, flushMs = 5000): Sink => {
+  let buffer: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer.length > 0) {
+      const events = buffer;
+      buffer = [];
+      sink.send(events);
+    }
+    sink.flush?.();
+  };
+
+  return {
+    name: sink.name,
+    flush,
+    send: (events) => {
+      buffer.push(...events);
+      if (buffer.length >= size) {
+        flush();
+      } else if (timer === null) {
+        timer = setTimeout(flush, flushMs);
+      }
+    },
+  };
+};
+
+// Drop events unless the user has consented to measurement. Events
+// sent before consent is known are dropped, not held back.
+export const consented = (sink: Sink): Sink => {
+  return {
+    ...sink,
+    send: (events) => {
+      if (hasConsent("measurement")) {
+        sink.send(events);
+      }
+    },
+  };
+};
+
+// Build a sink from its page config, or null (with a console error) if
+// the config can't be used.
+export const createSink = (config: SinkConfig): Sink | null => {
+  let sink: Sink;
+  switch (config.type) {
+    case "dataLayer":
+      sink = dataLayerSink();
+      break;
+    case "beacon":
+      if (!config.url) {
+        console.error("Beacon analytics sink needs a url");
+        return null;
+      }
+      sink = beaconSink(config.url);
+      break;
+    case "console":
+      sink = consoleSink();
+      break;
+    case "memory":
+      sink = memorySink();
+      break;
+    default:
+      console.error(`Unknown analytics sink type "${(config as SinkConfig).type}"`);
+      return null;
+  }
+  if (config.batchSize && config.batchSize > 1) {
+    sink = batched(sink, config.batchSize, config.flushMs);
+  }
+  if (config.sampleRate !== undefined && config.sampleRate < 1) {
+    sink = sampled(sink, config.sampleRate);
+  }
+  // Sinks that leave the page track the user. Console and memory sinks
+  // are local debugging aids.
+  if (config.type === "dataLayer" || config.type === "beacon") {
+    sink = consented(sink);
+  }
+  return sink;
+};
@@ -0,0 +1,61 @@
+import { assignCategories } from "./category-assignment";
+import { PageConfig, ValidBlockConfig } from "./definition";
+import { createRng } from "./rng";
+import { configureStorage, getSessionStorage } from "./storage";
+
+const block = (category?: string): ValidBlockConfig => ({
+  blockType: "fotoscape_block",
+  settings: { layout: "list-small", count: 2, category },
+});
+
+const categoriesOf = (layout: ValidBlockConfig[]) => {
+  return layout.map((entry) => (entry.blockType === "fotoscape_block" ? entry.settings.category : undefined));
+};
+
+const assign = (layout: ValidBlockConfig[], page: PageConfig, weights = {}) => {
+  return categoriesOf(assignCategories(layout, page, weights, createRng(1, "assignment").next));
+};
+
+beforeEach(() => {
+  configureStorage({ preferred: ["memory"] });
+  window.sessionStorage.clear();
+});
+
+describe("assignCategories", () => {
+  const layout = [block(), block("fixed"), block(), block()];
+
+  it("walks the categories round-robin by default, keeping set categories", () => {
+    expect(assign(layout, { categories: ["a", "b"] })).toEqual(["a", "fixed", "b", "a"]);
+  });
+
+  it("spreads blocks in proportion to weights", () => {
+    const page: PageConfig = {
+      categories: ["a", "b"],
+      assignment: { strategy: "weighted", weights: { a: 2, b: 1 } },
+    };
+    expect(assign(layout, page)).toEqual(["a", "fixed", "b", "a"]);
+  });
+
+  it("favours the categories the user weighs highest", () => {
+    const page: PageConfig = {
+      categories: ["a", "b"],
+      assignment: { strategy: "interest", categoryInterests: { a: ["i1"], b: ["i2"] } },
+    };
+    expect(assign(layout, page, { i1: 0.2, i2: 0.9 })).toEqual(["b", "fixed", "a", "b"]);
+  });
+
+  it("keeps the same categories for the rest of the session", () => {
+    const page: PageConfig = {
+      categories: ["a", "b"],
+      assignment: { strategy: "interest", categoryInterests: { a: ["i1"], b: ["i2"] } },
+    };
+    const first = assign(layout, page, { i1: 0.9, i2: 0.2 });
+    expect(assign(layout, page, { i1: 0.2, i2: 0.9 })).toEqual(first);
+    expect(getSessionStorage().mode).toBe("sessionStorage");
+  });
+
+  it("leaves layouts without open blocks alone", () => {
+    const fixed = [block("fixed")];
+    expect(assignCategories(fixed, { categories: ["a"] }, {}, Math.random)).toBe(fixed);
+  });
+});
@@ -0,0 +1,143 @@
+import { PageConfig, ValidBlockConfig } from "./definition";
+import { UserWeights } from "./personalize";
+import { getSessionStorage } from "./storage";
+
+// How fotoscape blocks without an explicit category get one.
+//
+//   round-robin  walk page.categories in order.
+//   weighted     spread blocks in proportion to `weights` (smooth
+//                weighted round robin, so no randomness).
+//   interest     favour the categories whose interests (from
+//                `categoryInterests`) the user weighs highest.
+export type AssignmentStrategy = "round-robin" | "weighted" | "interest";
+
+export type CategoryAssignmentConfig = {
+  strategy: AssignmentStrategy;
+  weights?: { [category: string]: number };
+  categoryInterests?: { [category: string]: string[] };
+};
+
+const sessionKeyPrefix = "softbox-assignment:";
+
+const roundRobin = (categories: string[], slots: number) => {
+  const result: string[] = [];
+  for (let i = 0; i < slots; i++) {
+    result.push(categories[i % categories.length]);
+  }
+  return result;
+};
+
+const weighted = (categories: string[], slots: number, weights: { [category: string]: number }) => {
+  const current: { [category: string]: number } = {};
+  const weightOf = (category: string) => Math.max(0, weights[category] ?? 0);
+  const total = categories.reduce((sum, category) => sum + weightOf(category), 0);
+  if (total <= 0) {
+    return roundRobin(categories, slots);
+  }
+  const result: string[] = [];
+  for (let i = 0; i < slots; i++) {
+    let best = categories[0];
+    for (const category of categories) {
+      current[category] = (current[category] ?? 0) + weightOf(category);
+      if (current[category] > current[best]) {
+        best = category;
+      }
+    }
+    current[best] -= total;
+    result.push(best);
+  }
+  return result;
+};
+
+// Average user weight across a category's interests.
+const affinity = (interests: string[] | undefined, userWeights: UserWeights) => {
+  if (!interests || interests.length === 0) {
+    return 0;
+  }
+  const sum = interests.reduce((total, interest) => total + (userWeights[interest] ?? 0), 0);
+  return sum / interests.length;
+};
+
+const byInterest = (
+  categories: string[],
+  slots: number,
+  categoryInterests: { [category: string]: string[] },
+  userWeights: UserWeights,
+  rand: () => number
+) => {
+  if (!categories.some((category) => categoryInterests[category]?.length)) {
+    console.warn("Interest assignment has no categoryInterests for these categories, using round-robin");
+    return roundRobin(categories, slots);
+  }
+  // Equally liked categories are ordered by a random tie-breaker.
+  const ranked = categories
+    .map((category) => ({ category, tie: rand(), score: affinity(categoryInterests[category], userWeights) }))
+    .sort((a, b) => b.score - a.score || a.tie - b.tie)
+    .map((entry) => entry.category);
+  return roundRobin(ranked, slots);
+};
+
+const pickCategories = (page: PageConfig, slots: number, userWeights: UserWeights, rand: () => number) => {
+  const config = page.assignment ?? { strategy: "round-robin" };
+  switch (config.strategy) {
+    case "weighted":
+      return weighted(page.categories, slots, config.weights ?? {});
+    case "interest":
+      return byInterest(page.categories, slots, config.categoryInterests ?? {}, userWeights, rand);
+    default:
+      return roundRobin(page.categories, slots);
+  }
+};
+
+// Small string hash used to key session storage by configuration.
+const hash = (value: string) => {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) {
+    h = ((h << 5) + h + value.charCodeAt(i)) | 0;
+  }
+  return (h >>> 0).toString(36);
+};
+
+const readSession = (key: string, slots: number): string[] | null => {
+  const stored = getSessionStorage().getJSON(key);
+  return Array.isArray(stored) && stored.length === slots ? stored : null;
+};
+
+// Failing to store only costs us stability across page loads.
+const writeSession = (key: string, categories: string[]) => {
+  getSessionStorage().setJSON(key, categories);
+};
+
+// Return a copy of `layout` with a category on every fotoscape block.
+// Categories set in the layout are kept. The rest come from the page's
+// assignment strategy and are remembered for the session, so the same
+// layout and page config always get the same categories. `rand` breaks
+// ties and should come from the widget's seeded generator.
+export const assignCategories = (
+  layout: ValidBlockConfig[],
+  page: PageConfig,
+  userWeights: UserWeights,
+  rand: () => number
+): ValidBlockConfig[] => {
+  const open = layout.filter(
+    (block) => block.blockType === "fotoscape_block" && !block.settings.category
+  ).length;
+  if (open === 0 || page.categories.length === 0) {
+    return layout;
+  }
+
+  const key = sessionKeyPrefix + hash(JSON.stringify({ layout, page }));
+  let picked = readSession(key, open);
+  if (!picked) {
+    picked = pickCategories(page, open, userWeights, rand);
+    writeSession(key, picked);
+  }
+
+  let next = 0;
+  return layout.map((block) => {
+    if (block.blockType !== "fotoscape_block" || block.settings.category) {
+      return block;
+    }
+    return { ...block, settings: { ...block.settings, category: picked![next++] } };
+  });
+};
@@ -0,0 +1,126 @@
+import { useContext, useEffect, useId, useRef, useState } from "react";
+import SoftboxContext from "../store/softbox-context";
+import { OpenArticle } from "../hooks/use-article";
+import useMessages from "../hooks/use-messages";
+import useReducedMotion from "../hooks/use-reduced-motion";
+import ResponsiveImage from "./ResponsiveImage";
+import { textDirection } from "../locale";
+import styles from "./ArticleOverlay.module.css";
+
+// The widget's in-page article view for link_destination
+// "full_page_article": the lookbook's full image gallery and summary
+// from the feed, over the page. A deep link may open it before the
+// lookbook's feed has loaded, so it shows once the item turns up.
+const ArticleOverlay: React.FC = () => {
+  const ctx = useContext(SoftboxContext);
+  const { article, closeArticle } = ctx;
+  const t = useMessages();
+  const titleId = useId();
+  const reducedMotion = useReducedMotion();
+  const closeRef = useRef<HTMLButtonElement>(null);
+  // The article on screen, kept through the closing animation.
+  const [shown, setShown] = useState<OpenArticle | null>(article);
+  const [closing, setClosing] = useState(false);
+  const animate = !!shown && shown.transition && !reducedMotion;
+
+  useEffect(() => {
+    if (article) {
+      setShown(article);
+      setClosing(false);
+    } else if (animate) {
+      setClosing(true);
+    } else {
+      setShown(null);
+    }
+  }, [article, animate]);
+
+  const item = shown
+    ? Object.values(ctx.content)
+        .flat()
+        .find((candidate) => candidate.uid === shown.uid)
+    : undefined;
+  const open = !!item && !closing;
+
+  // Move focus into the overlay while it is open and give it back
+  // afterwards; Escape closes it.
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const keyHandler = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        closeArticle();
+      }
+    };
+    document.addEventListener("keydown", keyHandler);
+    return () => {
+      document.removeEventListener("keydown", keyHandler);
+      previous?.focus();
+    };
+  }, [open, closeArticle]);
+
+  if (!item) {
+    return null;
+  }
+
+  const closedHandler = () => {
+    if (closing) {
+      setClosing(false);
+      setShown(null);
+    }
+  };
+  const lang = item.lang && item.lang !== ctx.locale ? item.lang : undefined;
+  const classes = [
+    styles["article"],
+    animate ? styles["article--animated"] : "",
+    closing ? styles["article--closing"] : "",
+  ].join(" ");
+  return (
+    <div className={classes} onAnimationEnd={closedHandler}>
+      <div
+        className={styles["article__dialog"]}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        lang={lang}
+        dir={lang && textDirection(lang)}
+      >
+        <button
+          ref={closeRef}
+          type="button"
+          className={styles["article__close"]}
+          aria-label={t("article.close")}
+          onClick={closeArticle}
+        >
+          ×
+        </button>
+        <h2 id={titleId} className={styles["article__title"]}>
+          {item.title}
+        </h2>
+        <div className={styles["article__gallery"]}>
+          {item.images.map((image, index) => (
+            <ResponsiveImage
+              key={image.link}
+              item={item}
+              slot={{ width: 480, height: 360, sizes: "(max-width: 32rem) 100vw, 480px" }}
+              sources={[image]}
+              priority={index === 0}
+              className={styles["article__image"]}
+              alt={index === 0 ? item.title : ""}
+            />
+          ))}
+        </div>
+        {item.description && <p className={styles["article__description"]}>{item.description}</p>}
+        {item.sourceLink && (
+          <a href={item.sourceLink} className={styles["article__source"]}>
+            {t("article.source")}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArticleOverlay;
@@ -1,27 +1,26 @@
 import { FotoscapeItem } from "../definition";
 import styles from "./BlockItem.module.css"
-import { useContext } from "react";
-import SoftboxContext from "../store/softbox-context";
+import ItemLink from "./ItemLink";
+import ResponsiveImage from "./ResponsiveImage";
+import { SlotSize } from "../images";
+
+const slot: SlotSize = { width: 113, height: 104 };
 
 
 const BlockItem: React.FC<{
     data: FotoscapeItem;  
 }> = ({data})=>{
-    const ctx = useContext(SoftboxContext)
-    const clickHandler = () =>{
-        ctx.click(data.uid, data.interests); 
-    }
     return (
-        <a href={data.url} onClick={clickHandler}>
+        <ItemLink data={data}>
         <div className={styles['block-item']}>
             <div className={styles['block-item__body']}>
                 <div className={styles['block-item__media']}>
-                    <img className={styles['block-item__thumbnail']} alt='thumnail' src={data.imageUrl}/>
+                    <ResponsiveImage item={data} slot={slot} className={styles['block-item__thumbnail']}/>
                 </div>
                 <h1 className={styles['block-item__title']}>{data.title}</h1>
             </div>
         </div>
-        </a>
+        </ItemLink>
     )
 }
-export default BlockItem; 
\ No newline at end of file
+export default BlockItem; 
@@ -1,10 +1,126 @@
-import { BlockAdConfig } from "../../definition"
+import { useContext, useEffect, useRef, useState } from "react";
+import { BlockAdConfig } from "../../definition";
+import SoftboxContext from "../../store/softbox-context";
+import useInView from "../../hooks/use-in-view";
+import useMessages from "../../hooks/use-messages";
+import { Googletag, GptSlot, GptSlotEvent, newSlotId, withGoogletag } from "../../ads";
+import styles from "./BlockAd.module.css";
 
+type Status = "waiting" | "filled" | "empty" | "failed";
+
+// A display ad slot served through googletag (ads.ts). The ad is only
+// requested once the slot comes within `lazyMargin` pixels of the
+// viewport. With `refreshSeconds` set, a filled ad is refreshed after
+// being at least half visible for that long without a break. Slots
+// nobody fills collapse unless `collapseEmpty` is false; slots whose
+// script can't load always do.
 const BlockAd: React.FC<{
-    configs: BlockAdConfig
-}> = (props)=>{
-    return <div>{props.configs.blockType} component</div>
+  configs: BlockAdConfig;
+  position: number;
+}> = ({ configs, position }) => {
+  const { partners, emit } = useContext(SoftboxContext);
+  const t = useMessages();
+  const ref = useRef<HTMLDivElement>(null);
+  const gpt = useRef<{
+    googletag: Googletag;
+    slot: GptSlot;
+    renderHandler: (event: GptSlotEvent) => void;
+  } | null>(null);
+  const [slotId] = useState(newSlotId);
+  const [requested, setRequested] = useState(false);
+  const [status, setStatus] = useState<Status>("waiting");
+  const [refreshes, setRefreshes] = useState(0);
+  const { settings } = configs;
+  const { sizes, lazyMargin = 200, refreshSeconds, collapseEmpty = true } = settings;
+  const near = useInView(ref, 0, `${lazyMargin}px`, false);
+  const viewable = useInView(ref, 0.5, "0px", false);
+
+  useEffect(() => {
+    if (near) {
+      setRequested(true);
+    }
+  }, [near]);
+
+  useEffect(() => {
+    if (!requested) {
+      return;
+    }
+    // A command queued before a load timeout may still run if the
+    // script turns up late; a failed block must not show an ad then.
+    let active = true;
+    let failed = false;
+    const fail = (reason: string) => {
+      failed = true;
+      console.warn(`Ad ${settings.adUnitPath}: ${reason}`);
+      setStatus("failed");
+      emit("blockFailed", { block_type: "ad_unit", reason }, position);
+    };
+
+    withGoogletag(partners.gptScriptUrl, partners.timeoutMs, (googletag) => {
+      if (!active || failed) {
+        return;
+      }
+      const slot = googletag.defineSlot(settings.adUnitPath, settings.sizes, slotId);
+      if (!slot) {
+        fail("slot could not be defined");
+        return;
+      }
+      slot.addService(googletag.pubads());
+      for (const key in settings.targeting) {
+        slot.setTargeting(key, settings.targeting[key]);
+      }
+      const renderHandler = (event: GptSlotEvent) => {
+        if (!active || event.slot !== slot) {
+          return;
+        }
+        setStatus(event.isEmpty ? "empty" : "filled");
+        if (!event.isEmpty) {
+          emit("blockRendered", { block_type: "ad_unit", item_count: 1 }, position);
+        }
+      };
+      googletag.pubads().addEventListener("slotRenderEnded", renderHandler);
+      gpt.current = { googletag, slot, renderHandler };
+      googletag.display(slotId);
+    }).catch((err: Error) => {
+      if (active) {
+        fail(err.message);
+      }
+    });
+
+    return () => {
+      active = false;
+      if (gpt.current) {
+        gpt.current.googletag.pubads().removeEventListener("slotRenderEnded", gpt.current.renderHandler);
+        gpt.current.googletag.destroySlots([gpt.current.slot]);
+        gpt.current = null;
+      }
+    };
+  }, [requested, settings, slotId, partners, emit, position]);
+
+  // Each refresh restarts the clock, as does the ad leaving the view.
+  useEffect(() => {
+    if (!refreshSeconds || status !== "filled" || !viewable) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (gpt.current && document.visibilityState === "visible") {
+        gpt.current.googletag.pubads().refresh([gpt.current.slot]);
+      }
+      setRefreshes((n) => n + 1);
+    }, refreshSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [refreshSeconds, status, viewable, refreshes]);
 
-}
+  const collapsed = status === "failed" || (status === "empty" && collapseEmpty);
+  // Reserve the smallest creative's height so filling doesn't push
+  // the page around more than it has to.
+  const minHeight = Math.min(...sizes.map((size) => size[1]));
+  return (
+    <div className={styles["ad"]} hidden={collapsed}>
+      <p className={styles["ad__label"]}>{t("ad.label")}</p>
+      <div ref={ref} id={slotId} className={styles["ad__slot"]} style={{ minHeight }} />
+    </div>
+  );
+};
 
-export default BlockAd
\ No newline at end of file
+export default BlockAd;
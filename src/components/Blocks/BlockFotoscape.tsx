@@ -1,28 +1,54 @@
-import { Fragment } from "react";
+import { useContext, useEffect, useMemo } from "react";
 import { BlockFotoscapeConfig, FotoscapeItem } from "../../definition";
-import BlockItem from "../BlockItem";
-// import news from "../../dummy-data/softbox-payload";
-import { useContext } from "react";
+import { getLayout } from "../Layouts";
 import SoftboxContext from "../../store/softbox-context";
+import BlockContext from "../../store/block-context";
+import useMessages from "../../hooks/use-messages";
 
-// const contentList = news.items;
+// Renders the items the page allocator handed this block (see
+// allocator.ts) with the renderer registered for its layout.
+const BlockFotoscape: React.FC<{
+  configs: BlockFotoscapeConfig;
+  items: FotoscapeItem[];
+  position: number;
+}> = (props) => {
+  const { emit, failed } = useContext(SoftboxContext);
+  const t = useMessages();
+  const { layout, category, link_destination, transition, layout_config } = props.configs.settings;
+  const hideDescription = layout_config?.stub?.hide_description;
+  const uidKey = props.items.map((item) => item.uid).join(",");
+  const block = useMemo(
+    () => ({
+      position: props.position,
+      category,
+      itemUids: uidKey ? uidKey.split(",") : [],
+      linkDestination: link_destination,
+      transition,
+      hideDescription,
+    }),
+    [props.position, category, uidKey, link_destination, transition, hideDescription]
+  );
+
+  useEffect(() => {
+    if (block.itemUids.length > 0) {
+      emit("blockRendered", {
+        block_type: "fotoscape_block",
+        layout,
+        category: block.category,
+        item_count: block.itemUids.length,
+      }, block.position);
+    }
+  }, [emit, layout, block]);
 
-const BlockFotoscape: React.FC<{ configs: BlockFotoscapeConfig }> = (props) => {
-  const ctx = useContext(SoftboxContext);
-  const count = props.configs.settings.count;
-  const category = props.configs.settings.category!; 
-  //   const category = props.configs.settings.category;
-  let contentItems: FotoscapeItem[] = [];
-  if (ctx.content[category]) {
-    contentItems = ctx.content[category].slice(0, count); 
+  if (props.items.length === 0 && category && failed[category]) {
+    return <p role="status">{t("error.loadFailed")}</p>;
   }
 
+  const Layout = getLayout(layout);
   return (
-    <Fragment>
-      {contentItems.map((item: FotoscapeItem) => {
-        return <BlockItem key={Math.random()} data={item}></BlockItem>;
-      })}
-    </Fragment>
+    <BlockContext.Provider value={block}>
+      <Layout items={props.items} configs={props.configs} />
+    </BlockContext.Provider>
   );
 };
 
@@ -1,8 +1,93 @@
+import { useContext, useEffect, useRef, useState } from "react";
 import { BlockOutbrainConfig } from "../../definition";
+import SoftboxContext from "../../store/softbox-context";
+import useMessages from "../../hooks/use-messages";
+import { loadScript } from "../../script-loader";
+import { partnerPageUrl } from "../../partners";
+import styles from "./BlockOutbrain.module.css";
 
+type OutbrainWindow = Window & {
+  OBR?: { extern?: { researchWidget?: () => void } };
+};
+
+type Status = "loading" | "ready" | "failed";
+
+// Renders an Outbrain widget. The partner script is loaded once per
+// page (script-loader.ts) and fills every `.OUTBRAIN` container it
+// finds; containers added after it loaded are handed to it with
+// OBR.extern.researchWidget(). If the script fails, or nothing shows
+// up in the container within the partner timeout, the block collapses.
 const BlockOutbrain: React.FC<{
-    configs: BlockOutbrainConfig
-}> = (props)=>{
-    return <div>{props.configs.blockType}</div>
-}
-export default BlockOutbrain; 
\ No newline at end of file
+  configs: BlockOutbrainConfig;
+  position: number;
+}> = ({ configs, position }) => {
+  const { partners, emit } = useContext(SoftboxContext);
+  const t = useMessages();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<Status>("loading");
+  const { widgetId, layout, hasBranding } = configs.settings;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    let done = false;
+    const finish = (next: Status, reason = "") => {
+      if (done) {
+        return;
+      }
+      done = true;
+      clearTimeout(timer);
+      observer.disconnect();
+      setStatus(next);
+      if (next === "ready") {
+        emit("blockRendered", {
+          block_type: "outbrain_block",
+          layout,
+          item_count: container.childElementCount,
+        }, position);
+      } else {
+        console.warn(`Outbrain ${widgetId}: ${reason}`);
+        emit("blockFailed", { block_type: "outbrain_block", reason }, position);
+      }
+    };
+
+    const observer = new MutationObserver(() => {
+      if (container.childElementCount > 0) {
+        finish("ready");
+      }
+    });
+    observer.observe(container, { childList: true });
+    const timer = setTimeout(() => finish("failed", "no recommendations before timeout"), partners.timeoutMs);
+
+    loadScript(partners.outbrainScriptUrl, partners.timeoutMs).then(
+      () => {
+        if (!done) {
+          (window as OutbrainWindow).OBR?.extern?.researchWidget?.();
+        }
+      },
+      (err: Error) => finish("failed", err.message)
+    );
+
+    return () => {
+      done = true;
+      clearTimeout(timer);
+      observer.disconnect();
+    };
+  }, [partners, emit, widgetId, layout, position]);
+
+  if (status === "failed") {
+    return null;
+  }
+  return (
+    <div className={styles["outbrain"]} data-layout={layout}>
+      {hasBranding && (
+        <p className={styles["outbrain__branding"]}>{t("sponsored.by", { brand: "Outbrain" })}</p>
+      )}
+      <div ref={containerRef} className="OUTBRAIN" data-src={partnerPageUrl()} data-widget-id={widgetId} />
+    </div>
+  );
+};
+
+export default BlockOutbrain;
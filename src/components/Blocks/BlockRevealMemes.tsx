@@ -1,8 +1,129 @@
-import { BlockRevealMemesConfig } from "../../definition";
+import { useContext, useEffect, useMemo, useRef, useState } from "react";
+import { BlockRevealMemesConfig, FotoscapeItem } from "../../definition";
+import SoftboxContext from "../../store/softbox-context";
+import BlockContext from "../../store/block-context";
+import useImpression from "../../hooks/use-impression";
+import useMessages from "../../hooks/use-messages";
+import useReducedMotion from "../../hooks/use-reduced-motion";
+import ResponsiveImage from "../ResponsiveImage";
+import { SlotSize } from "../../images";
+import styles from "./BlockRevealMemes.module.css";
+
+const slot: SlotSize = { width: 480, height: 480 };
+
+// One meme card: the image, with its punchline hidden until the card
+// is tapped. The punchline is the summary when there is one (the title
+// then sets it up), else the title.
+const MemeCard: React.FC<{
+  item: FotoscapeItem;
+  itemPosition: number;
+  revealed: boolean;
+  animation: string;
+  onReveal: () => void;
+}> = ({ item, itemPosition, revealed, animation, onReveal }) => {
+  const ctx = useContext(SoftboxContext);
+  const block = useContext(BlockContext);
+  const t = useMessages();
+  const ref = useRef<HTMLButtonElement>(null);
+  const placement = { blockPosition: block.position, itemPosition, category: block.category };
+  useImpression(ref, () => ctx.impression(item.uid, item.interests, placement), ctx.impressionConfig);
+
+  const setup = item.description ? item.title : null;
+  const punchline = item.description || item.title;
+  const captionClasses = [styles["memes__caption"]];
+  if (revealed) {
+    captionClasses.push(styles["memes__caption--revealed"], styles[`memes__caption--${animation}`]);
+  }
+  return (
+    <button
+      ref={ref}
+      type="button"
+      className={styles["memes__card"]}
+      aria-expanded={revealed}
+      onClick={onReveal}
+    >
+      {setup && <span className={styles["memes__setup"]}>{setup}</span>}
+      <ResponsiveImage item={item} slot={slot} className={styles["memes__image"]} alt={setup || ""} />
+      <span className={captionClasses.join(" ")} aria-hidden={!revealed}>
+        {punchline}
+      </span>
+      {!revealed && <span className={styles["memes__hint"]}>{t("memes.reveal")}</span>}
+    </button>
+  );
+};
+
+// Cycles through the first `count` memes of its category, one at a
+// time. Memes come through the same pipeline as every other category
+// (fetchCategory: feed cache, validation, personalized order).
 const BlockRevealMemes: React.FC<{
   configs: BlockRevealMemesConfig;
-}> = (props) => {
-  return <div>{props.configs.blockType}</div>;
+  position: number;
+}> = ({ configs, position }) => {
+  const { content, fetchCategory, emit } = useContext(SoftboxContext);
+  const t = useMessages();
+  const reducedMotion = useReducedMotion();
+  const { category, count = 10, animation = "fade" } = configs.settings;
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+
+  const loaded = content[category] !== undefined;
+  useEffect(() => {
+    if (!loaded) {
+      fetchCategory(category);
+    }
+  }, [loaded, category, fetchCategory]);
+
+  const memes = useMemo(() => (content[category] || []).slice(0, count), [content, category, count]);
+  const block = useMemo(
+    () => ({ position, category, itemUids: memes.map((meme) => meme.uid) }),
+    [position, category, memes]
+  );
+
+  if (memes.length === 0) {
+    return null;
+  }
+  const current = index % memes.length;
+  const meme = memes[current];
+
+  const revealHandler = () => {
+    if (revealed) {
+      return;
+    }
+    setRevealed(true);
+    emit("memeRevealed", { lookbook: meme.uid, item_position: current, category }, position);
+  };
+  const nextHandler = () => {
+    const next = (current + 1) % memes.length;
+    emit("memeNext", {
+      from: meme.uid,
+      lookbook: memes[next].uid,
+      revealed,
+      item_position: next,
+      category,
+    }, position);
+    setIndex(next);
+    setRevealed(false);
+  };
+
+  return (
+    <BlockContext.Provider value={block}>
+      <div className={styles["memes"]}>
+        <MemeCard
+          key={meme.uid}
+          item={meme}
+          itemPosition={current}
+          revealed={revealed}
+          animation={reducedMotion ? "none" : animation}
+          onReveal={revealHandler}
+        />
+        {memes.length > 1 && (
+          <button type="button" className={styles["memes__next"]} onClick={nextHandler}>
+            {t("memes.next")}
+          </button>
+        )}
+      </div>
+    </BlockContext.Provider>
+  );
 };
 
 export default BlockRevealMemes;
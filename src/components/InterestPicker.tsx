@@ -0,0 +1,79 @@
+import { useContext, useEffect, useId, useRef, useState } from "react";
+import SoftboxContext from "../store/softbox-context";
+import useMessages from "../hooks/use-messages";
+import styles from "./InterestPicker.module.css";
+
+// Lets the user say which of the feed's interests they follow. Saving
+// replaces their interest weights (see Personalize.chooseInterests())
+// and re-ranks the widget's feeds.
+const InterestPicker: React.FC<{
+  id?: string;
+  onClose: () => void;
+}> = ({ id, onClose }) => {
+  const { getInterests, chooseInterests } = useContext(SoftboxContext);
+  const t = useMessages();
+  const titleId = useId();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [interests] = useState(getInterests);
+  const [picked, setPicked] = useState(
+    () => new Set(interests.filter((interest) => interest.picked).map((interest) => interest.uid))
+  );
+
+  useEffect(() => {
+    formRef.current?.querySelector("input")?.focus();
+  }, []);
+
+  const toggle = (uid: string) => {
+    setPicked((current) => {
+      const next = new Set(current);
+      if (!next.delete(uid)) {
+        next.add(uid);
+      }
+      return next;
+    });
+  };
+
+  const submitHandler = (event: React.FormEvent) => {
+    event.preventDefault();
+    chooseInterests(interests.filter((interest) => picked.has(interest.uid)).map((interest) => interest.uid));
+    onClose();
+  };
+  const keyHandler = (event: React.KeyboardEvent) => {
+    if (event.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <form
+      ref={formRef}
+      id={id}
+      className={styles["picker"]}
+      aria-labelledby={titleId}
+      onSubmit={submitHandler}
+      onKeyDown={keyHandler}
+    >
+      <h3 id={titleId} className={styles["picker__title"]}>
+        {t("interests.title")}
+      </h3>
+      <div className={styles["picker__options"]}>
+        {interests.map((interest) => (
+          <label key={interest.uid} className={styles["picker__option"]}>
+            <input type="checkbox" checked={picked.has(interest.uid)} onChange={() => toggle(interest.uid)} />
+            {interest.name}
+          </label>
+        ))}
+      </div>
+      <div className={styles["picker__actions"]}>
+        <button type="button" className={styles["picker__cancel"]} onClick={onClose}>
+          {t("interests.cancel")}
+        </button>
+        <button type="submit" className={styles["picker__save"]}>
+          {t("interests.save")}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default InterestPicker;
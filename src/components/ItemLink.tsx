@@ -0,0 +1,118 @@
+import React, { ReactNode, RefObject, useContext, useId, useRef, useState } from "react";
+import { FotoscapeItem } from "../definition";
+import SoftboxContext from "../store/softbox-context";
+import useImpression from "../hooks/use-impression";
+import useMessages from "../hooks/use-messages";
+import { articleUrl } from "../hooks/use-article";
+import BlockContext from "../store/block-context";
+import { textDirection } from "../locale";
+import styles from "./ItemLink.module.css";
+
+// Where an item leads depends on the block's link_destination:
+// "fotoscape" (default) the lookbook page on Fotoscape, "referral" the
+// publisher's own page, "full_page_article" the widget's article
+// overlay, "stub" an expandable teaser in place.
+const ItemLink: React.FC<{
+  data: FotoscapeItem;
+  className?: string;
+  children: ReactNode;
+}> = ({ data, className, children }) => {
+  const ctx = useContext(SoftboxContext);
+  const block = useContext(BlockContext);
+  const t = useMessages();
+  const teaserId = useId();
+  const [expanded, setExpanded] = useState(false);
+  const clicked = useRef(false);
+  const ref = useRef<HTMLElement>(null);
+  const placement = {
+    blockPosition: block.position,
+    itemPosition: block.itemUids.indexOf(data.uid),
+    category: block.category,
+  };
+  useImpression(ref, () => ctx.impression(data.uid, data.interests, placement), ctx.impressionConfig);
+
+  const destination = block.linkDestination || "fotoscape";
+  const clickHandler = () => {
+    ctx.click(data.uid, data.interests, placement);
+  };
+  // Feed text may be in another language than the page, e.g. when the
+  // feed has no translation for the widget's locale.
+  const lang = data.lang && data.lang !== ctx.locale ? data.lang : undefined;
+  const dir = lang && textDirection(lang);
+
+  if (destination === "stub") {
+    // Opening the teaser is the click; closing and reopening it isn't.
+    const toggleHandler = () => {
+      if (!expanded && !clicked.current) {
+        clicked.current = true;
+        clickHandler();
+      }
+      setExpanded(!expanded);
+    };
+    const teaserClasses = [
+      styles["item-link__teaser"],
+      expanded ? styles["item-link__teaser--open"] : "",
+      block.transition ? styles["item-link__teaser--animated"] : "",
+    ].join(" ");
+    // The card toggles for pointer users; the button beside it is the
+    // accessible disclosure, so the card's headings stay headings.
+    return (
+      <div ref={ref as RefObject<HTMLDivElement>} className={className} lang={lang} dir={dir}>
+        <div className={styles["item-link__content"]} onClick={toggleHandler}>
+          {children}
+        </div>
+        <button
+          type="button"
+          className={styles["item-link__toggle"]}
+          aria-expanded={expanded}
+          aria-controls={teaserId}
+          aria-label={`${expanded ? t("stub.less") : t("stub.more")}: ${data.title}`}
+          onClick={toggleHandler}
+        >
+          {expanded ? t("stub.less") : t("stub.more")}
+        </button>
+        <div id={teaserId} className={teaserClasses} hidden={!expanded && !block.transition} aria-hidden={!expanded}>
+          <div className={styles["item-link__teaser-body"]}>
+            {!block.hideDescription && data.description && (
+              <p className={styles["item-link__description"]}>{data.description}</p>
+            )}
+            <a href={data.url} className={styles["item-link__more"]} tabIndex={expanded ? undefined : -1}>
+              {t("cta.readMore")}
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  let href = data.url;
+  if (destination === "referral" && data.sourceLink) {
+    href = data.sourceLink;
+  } else if (destination === "full_page_article") {
+    // A real link to the deep-linked overlay, so it still works opened
+    // in a new tab.
+    href = articleUrl(ctx.widgetId, data.uid);
+  }
+  const linkHandler = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    clickHandler();
+    const plainClick = event.button === 0 && !event.metaKey && !event.ctrlKey && !event.shiftKey && !event.altKey;
+    if (destination === "full_page_article" && plainClick) {
+      event.preventDefault();
+      ctx.openArticle(data.uid, !!block.transition);
+    }
+  };
+  return (
+    <a
+      ref={ref as RefObject<HTMLAnchorElement>}
+      href={href}
+      className={className}
+      lang={lang}
+      dir={dir}
+      onClick={linkHandler}
+    >
+      {children}
+    </a>
+  );
+};
+
+export default ItemLink;
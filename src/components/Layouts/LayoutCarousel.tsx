@@ -0,0 +1,212 @@
+import { CSSProperties, Fragment, PointerEvent, useContext, useEffect, useRef, useState } from "react";
+import { FotoscapeImage, FotoscapeItem } from "../../definition";
+import { SlotSize } from "../../images";
+import useInView from "../../hooks/use-in-view";
+import useReducedMotion from "../../hooks/use-reduced-motion";
+import useMessages from "../../hooks/use-messages";
+import SoftboxContext from "../../store/softbox-context";
+import { kenBurnsFrames } from "../../kenburns";
+import ItemLink from "../ItemLink";
+import ResponsiveImage from "../ResponsiveImage";
+import { LayoutProps } from "./registry";
+import styles from "./LayoutCarousel.module.css";
+
+export type CarouselVariant = "carousel" | "photocard" | "slideshow";
+
+type Slide = {
+  key: string;
+  item: FotoscapeItem;
+  sources?: FotoscapeImage[]; // Images to pick from; the item's own when missing.
+};
+
+const slideDuration = 5000; // Milliseconds each slide stays up.
+const swipeDistance = 40; // Pixels a pointer must travel to count as a swipe.
+
+const slots: { [variant in CarouselVariant]: SlotSize } = {
+  carousel: { width: 480, height: 270 },
+  photocard: { width: 480, height: 360 },
+  slideshow: { width: 480, height: 270 },
+};
+
+// Carousels show one slide per lookbook, from its full size images
+// when it has any (the Ken Burns box refers to those); the slideshow
+// walks through every image of every lookbook.
+const buildSlides = (items: FotoscapeItem[], variant: CarouselVariant): Slide[] => {
+  if (variant === "slideshow") {
+    return items.flatMap((item) => {
+      if (item.images.length === 0) {
+        return [{ key: item.uid, item }];
+      }
+      return item.images.map((image, i) => ({ key: `${item.uid}-${i}`, item, sources: [image] }));
+    });
+  }
+  return items.map((item) => ({
+    key: item.uid,
+    item,
+    sources: item.images.length > 0 ? item.images : undefined,
+  }));
+};
+
+const LayoutCarousel: React.FC<LayoutProps & { variant?: CarouselVariant }> = ({
+  items,
+  variant = "carousel",
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointerStart = useRef<number | null>(null);
+  const swiped = useRef(false);
+  const inView = useInView(containerRef, 0.5);
+  const reducedMotion = useReducedMotion();
+  const t = useMessages();
+  // Right to left, slides run leftwards and swipes are mirrored.
+  const rtl = useContext(SoftboxContext).direction === "rtl";
+  const [index, setIndex] = useState(0);
+  const [hovered, setHovered] = useState(false);
+
+  const slides = buildSlides(items, variant);
+  const total = slides.length;
+  const current = total > 0 ? index % total : 0;
+  const playing = inView && !hovered && !reducedMotion && total > 1;
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    const timer = setTimeout(() => setIndex((i) => (i + 1) % total), slideDuration);
+    return () => clearTimeout(timer);
+  }, [playing, current, total]);
+
+  if (total === 0) {
+    return null;
+  }
+
+  const go = (step: number) => {
+    setIndex((current + step + total) % total);
+  };
+
+  const pointerDownHandler = (event: PointerEvent) => {
+    pointerStart.current = event.clientX;
+  };
+  const pointerUpHandler = (event: PointerEvent) => {
+    if (pointerStart.current === null) {
+      return;
+    }
+    const distance = event.clientX - pointerStart.current;
+    pointerStart.current = null;
+    swiped.current = Math.abs(distance) >= swipeDistance;
+    if (swiped.current) {
+      go((distance < 0) !== rtl ? 1 : -1);
+    }
+  };
+  // Swallow the click that ends a swipe so it doesn't open the lookbook.
+  const clickCaptureHandler = (event: React.MouseEvent) => {
+    if (swiped.current) {
+      swiped.current = false;
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  };
+
+  const classes = [styles["carousel"]];
+  if (variant === "photocard") {
+    classes.push(styles["carousel--photocard"]);
+  }
+  if (reducedMotion) {
+    classes.push(styles["carousel--still"]);
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={classes.join(" ")}
+      aria-roledescription="carousel"
+      onPointerDown={pointerDownHandler}
+      onPointerUp={pointerUpHandler}
+      onPointerCancel={() => (pointerStart.current = null)}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onClickCapture={clickCaptureHandler}
+    >
+      <div className={styles["carousel__track"]} style={{ transform: `translateX(${rtl ? "" : "-"}${current * 100}%)` }}>
+        {slides.map((slide, i) => {
+          const active = i === current;
+          const imageClasses = [styles["carousel__image"]];
+          let imageStyle: CSSProperties | undefined;
+          if (slide.item.kb && !reducedMotion) {
+            const frames = kenBurnsFrames(slide.item.kb);
+            imageStyle = {
+              "--kb-start": frames.start,
+              "--kb-end": frames.end,
+              "--kb-duration": `${slideDuration}ms`,
+            } as CSSProperties;
+            if (active) {
+              imageClasses.push(styles["carousel__image--animated"]);
+            }
+          }
+          if (active && !playing) {
+            imageStyle = { ...imageStyle, animationPlayState: "paused" };
+          }
+          return (
+            <div key={slide.key} className={styles["carousel__slide"]} aria-hidden={!active}>
+              <ItemLink data={slide.item}>
+                <ResponsiveImage
+                  item={slide.item}
+                  slot={slots[variant]}
+                  sources={slide.sources}
+                  priority={i === 0 ? undefined : false}
+                  className={imageClasses.join(" ")}
+                  style={imageStyle}
+                  alt={slide.item.title}
+                  draggable={false}
+                />
+                {variant !== "slideshow" && (
+                  <div className={styles["carousel__caption"]}>
+                    <h2 className={styles["carousel__title"]}>{slide.item.title}</h2>
+                  </div>
+                )}
+              </ItemLink>
+            </div>
+          );
+        })}
+      </div>
+      {total > 1 && (
+        <Fragment>
+          <button
+            type="button"
+            className={`${styles["carousel__arrow"]} ${styles["carousel__arrow--prev"]}`}
+            aria-label={t("carousel.previous")}
+            onClick={() => go(-1)}
+          >
+            {rtl ? "›" : "‹"}
+          </button>
+          <button
+            type="button"
+            className={`${styles["carousel__arrow"]} ${styles["carousel__arrow--next"]}`}
+            aria-label={t("carousel.next")}
+            onClick={() => go(1)}
+          >
+            {rtl ? "‹" : "›"}
+          </button>
+          <div className={styles["carousel__dots"]}>
+            {slides.map((slide, i) => {
+              const dotClasses = [styles["carousel__dot"]];
+              if (i === current) {
+                dotClasses.push(styles["carousel__dot--active"]);
+              }
+              return (
+                <button
+                  key={slide.key}
+                  type="button"
+                  className={dotClasses.join(" ")}
+                  aria-label={t("carousel.slide", { number: i + 1 })}
+                  onClick={() => setIndex(i)}
+                />
+              );
+            })}
+          </div>
+        </Fragment>
+      )}
+    </div>
+  );
+};
+
+export default LayoutCarousel;
@@ -0,0 +1,90 @@
+import { useContext, useId, useState } from "react";
+import ItemLink from "../ItemLink";
+import ResponsiveImage from "../ResponsiveImage";
+import InterestPicker from "../InterestPicker";
+import SoftboxContext from "../../store/softbox-context";
+import useMessages from "../../hooks/use-messages";
+import { hasConsent } from "../../consent";
+import { SlotSize } from "../../images";
+import { LayoutProps } from "./registry";
+import styles from "./LayoutDailyTop.module.css";
+
+const slot: SlotSize = { width: 96, height: 96 };
+
+// Items listed before the CTA button reveals the rest.
+const previewCount = 3;
+
+// Ranked "top stories today" module (layout_config.daily_top): a header
+// with a settings icon opening the interest picker, the block's items
+// numbered in personalized order, a CTA button showing the ones past
+// the first few, and optionally the brand that brought them.
+const LayoutDailyTop: React.FC<LayoutProps> = ({ items, configs }) => {
+  const { defaultInterests } = useContext(SoftboxContext);
+  const t = useMessages();
+  const pickerId = useId();
+  const [picking, setPicking] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const { title, cta, layout_config } = configs.settings;
+  const config = layout_config?.daily_top;
+
+  const collapsible = !!config?.button_title && cta !== false && !expanded;
+  const shown = collapsible ? items.slice(0, previewCount) : items;
+  // Picking interests only makes sense if we may remember them.
+  const canPick =
+    !!config?.settings_icon_url && hasConsent("personalization") && Object.keys(defaultInterests).length > 0;
+  const brand = config?.brought_by ? items.find((item) => item.owner || item.brandLogo) : undefined;
+
+  return (
+    <section className={styles["daily-top"]}>
+      <header className={styles["daily-top__header"]}>
+        <div className={styles["daily-top__heading"]}>
+          <h2 className={styles["daily-top__title"]}>{title || t("dailyTop.title")}</h2>
+          {config?.subtitle && <p className={styles["daily-top__subtitle"]}>{config.subtitle}</p>}
+        </div>
+        {canPick && (
+          <button
+            type="button"
+            className={styles["daily-top__settings"]}
+            aria-label={t("interests.title")}
+            aria-expanded={picking}
+            aria-controls={pickerId}
+            onClick={() => setPicking(!picking)}
+          >
+            <img src={config!.settings_icon_url} alt="" width={24} height={24} />
+          </button>
+        )}
+      </header>
+      {picking && <InterestPicker id={pickerId} onClose={() => setPicking(false)} />}
+      <ol className={styles["daily-top__list"]}>
+        {shown.map((item, index) => (
+          <li key={item.uid} className={styles["daily-top__entry"]}>
+            <ItemLink data={item} className={styles["daily-top__item"]}>
+              <span className={styles["daily-top__rank"]} aria-hidden="true">
+                {index + 1}
+              </span>
+              <span className={styles["daily-top__item-title"]}>{item.title}</span>
+              <ResponsiveImage item={item} slot={slot} className={styles["daily-top__thumbnail"]} />
+            </ItemLink>
+          </li>
+        ))}
+      </ol>
+      {collapsible && items.length > previewCount && (
+        <button type="button" className={styles["daily-top__cta"]} onClick={() => setExpanded(true)}>
+          {config!.button_title}
+        </button>
+      )}
+      {brand && (
+        <footer className={styles["daily-top__brand"]}>
+          <span>{t("dailyTop.broughtBy")}</span>
+          {brand.brandLogo ? (
+            <img src={brand.brandLogo} alt={brand.owner || ""} className={styles["daily-top__brand-logo"]} />
+          ) : (
+            <span className={styles["daily-top__brand-name"]}>{brand.owner}</span>
+          )}
+        </footer>
+      )}
+    </section>
+  );
+};
+
+export default LayoutDailyTop;
@@ -0,0 +1,15 @@
+import { Fragment } from "react";
+import BlockItem from "../BlockItem";
+import { LayoutProps } from "./registry";
+
+const LayoutList: React.FC<LayoutProps> = ({ items }) => {
+  return (
+    <Fragment>
+      {items.map((item) => {
+        return <BlockItem key={item.uid} data={item}></BlockItem>;
+      })}
+    </Fragment>
+  );
+};
+
+export default LayoutList;
@@ -0,0 +1,41 @@
+import { Fragment } from "react";
+import ItemLink from "../ItemLink";
+import ResponsiveImage from "../ResponsiveImage";
+import { SlotSize } from "../../images";
+import { LayoutProps } from "./registry";
+import styles from "./LayoutPhotocard.module.css";
+
+export type PhotocardVariant = "small" | "large" | "flat";
+
+const slots: { [variant in PhotocardVariant]: SlotSize } = {
+  small: { width: 480, height: 270 },
+  large: { width: 480, height: 360 },
+  flat: { width: 480, height: 270 },
+};
+
+const LayoutPhotocard: React.FC<
+  LayoutProps & { variant?: PhotocardVariant; showDescription?: boolean }
+> = ({ items, variant = "small", showDescription = false }) => {
+  const classes = [styles["photocard"], styles[`photocard--${variant}`]].join(" ");
+  return (
+    <Fragment>
+      {items.map((item) => {
+        return (
+          <ItemLink key={item.uid} data={item} className={classes}>
+            <div className={styles["photocard__media"]}>
+              <ResponsiveImage item={item} slot={slots[variant]} className={styles["photocard__thumbnail"]} />
+            </div>
+            <div className={styles["photocard__caption"]}>
+              <h2 className={styles["photocard__title"]}>{item.title}</h2>
+              {showDescription && (
+                <p className={styles["photocard__description"]}>{item.description}</p>
+              )}
+            </div>
+          </ItemLink>
+        );
+      })}
+    </Fragment>
+  );
+};
+
+export default LayoutPhotocard;
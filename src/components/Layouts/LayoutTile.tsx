@@ -0,0 +1,37 @@
+import ItemLink from "../ItemLink";
+import ResponsiveImage from "../ResponsiveImage";
+import { SlotSize } from "../../images";
+import { LayoutProps } from "./registry";
+import styles from "./LayoutTile.module.css";
+
+// Square thumbnails in a 30rem grid with 8px gaps.
+const slots: { [columns: number]: SlotSize } = {
+  2: { width: 236, height: 236 },
+  3: { width: 155, height: 155 },
+};
+
+const LayoutTile: React.FC<LayoutProps & { columns?: 2 | 3 }> = ({
+  items,
+  columns = 3,
+}) => {
+  const classes = [styles["tile"]];
+  if (columns === 2) {
+    classes.push(styles["tile--two-column"]);
+  }
+  return (
+    <div className={classes.join(" ")}>
+      {items.map((item) => {
+        return (
+          <ItemLink key={item.uid} data={item} className={styles["tile__item"]}>
+            <div className={styles["tile__media"]}>
+              <ResponsiveImage item={item} slot={slots[columns]} className={styles["tile__thumbnail"]} />
+            </div>
+            <h2 className={styles["tile__title"]}>{item.title}</h2>
+          </ItemLink>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayoutTile;
@@ -0,0 +1,60 @@
+import { createElement } from "react";
+import { BlockSettingLayout } from "../../definition";
+import LayoutCarousel, { CarouselVariant } from "./LayoutCarousel";
+import LayoutDailyTop from "./LayoutDailyTop";
+import LayoutList from "./LayoutList";
+import LayoutPhotocard, { PhotocardVariant } from "./LayoutPhotocard";
+import LayoutTile from "./LayoutTile";
+import { LayoutRenderer, registerFallbackLayout, registerLayout } from "./registry";
+
+const photocard = (variant: PhotocardVariant, showDescription = false): LayoutRenderer => {
+  return (props) => createElement(LayoutPhotocard, { ...props, variant, showDescription });
+};
+
+const carousel = (variant: CarouselVariant): LayoutRenderer => {
+  return (props) => createElement(LayoutCarousel, { ...props, variant });
+};
+
+const tile = (columns: 2 | 3): LayoutRenderer => {
+  return (props) => createElement(LayoutTile, { ...props, columns });
+};
+
+// Built-in renderers. Typed as a full Record so adding a name to
+// BlockSettingLayout without giving it a renderer fails to compile.
+const builtInLayouts: Record<BlockSettingLayout, LayoutRenderer> = {
+  "carousel": carousel("carousel"),
+  "carousel-photocard": carousel("photocard"),
+  "daily-top": LayoutDailyTop,
+  "deals-list": LayoutList,
+  "edge": photocard("small"),
+  "edge-description": photocard("small", true),
+  "edge-list": LayoutList,
+  "edge-tile": tile(3),
+  "games-carousel": tile(2),
+  "games-hero": photocard("large"),
+  "games-tile": tile(3),
+  "large-photocard": photocard("large"),
+  "licensed": LayoutList,
+  "list-medium": LayoutList,
+  "list-small": LayoutList,
+  "list-small-sponsored": LayoutList,
+  "podcast-large": photocard("large"),
+  "podcast-small": LayoutList,
+  "quiz-carousel": tile(2),
+  "quiz-hero": photocard("large"),
+  "quiz-tile": tile(3),
+  "slideshow": carousel("slideshow"),
+  "small-photocard": photocard("small"),
+  "small-photocard-flat": photocard("flat"),
+  "stub": LayoutList,
+  "tile": tile(3),
+  "trending-carousel": tile(2),
+  "instant-play-games": tile(3),
+};
+
+for (const [name, renderer] of Object.entries(builtInLayouts)) {
+  registerLayout(name, renderer);
+}
+registerFallbackLayout(LayoutList);
+
+export * from "./registry";
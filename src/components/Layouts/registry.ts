@@ -0,0 +1,46 @@
+import { BlockFotoscapeConfig, BlockSettingLayout, FotoscapeItem } from "../../definition";
+
+// Props every layout renderer receives from BlockFotoscape.
+export type LayoutProps = {
+  items: FotoscapeItem[];
+  configs: BlockFotoscapeConfig;
+};
+
+export type LayoutRenderer = React.FC<LayoutProps>;
+
+// Layout names come from the host page's template, so anything outside
+// BlockSettingLayout is still accepted and resolved to the fallback.
+export type LayoutName = BlockSettingLayout | (string & {});
+
+const renderers = new Map<string, LayoutRenderer>();
+let fallbackRenderer: LayoutRenderer | null = null;
+const warnedNames = new Set<string>();
+
+// Register (or replace) the renderer used for a layout name.
+export const registerLayout = (name: LayoutName, renderer: LayoutRenderer) => {
+  renderers.set(name, renderer);
+};
+
+// Set the renderer used when a block asks for a layout nobody registered.
+export const registerFallbackLayout = (renderer: LayoutRenderer) => {
+  fallbackRenderer = renderer;
+};
+
+export const hasLayout = (name: LayoutName) => renderers.has(name);
+
+// Resolve the renderer for a layout name, falling back when the name
+// is unknown. Throws only if no fallback has been registered at all.
+export const getLayout = (name: LayoutName): LayoutRenderer => {
+  const renderer = renderers.get(name);
+  if (renderer) {
+    return renderer;
+  }
+  if (!fallbackRenderer) {
+    throw new Error(`No renderer registered for layout "${name}" and no fallback set`);
+  }
+  if (!warnedNames.has(name)) {
+    warnedNames.add(name);
+    console.warn(`Unknown layout "${name}", using fallback renderer`);
+  }
+  return fallbackRenderer;
+};
@@ -0,0 +1,61 @@
+import { CSSProperties, useContext, useState } from "react";
+import { FotoscapeImage, FotoscapeItem } from "../definition";
+import { SlotSize, selectImages } from "../images";
+import SoftboxContext from "../store/softbox-context";
+import BlockContext from "../store/block-context";
+
+const placeholderColor = "#e4e4e4";
+
+// An item's image picked for `slot` from its previews and images (or
+// from `sources`), with srcset/sizes for other densities and width and
+// height set so the page doesn't shift when it loads. Images outside
+// the first block load lazily unless `priority` says otherwise; until
+// an image loads its slot shows a placeholder color and the smallest
+// image stretched over it.
+const ResponsiveImage: React.FC<{
+  item: FotoscapeItem;
+  slot: SlotSize;
+  sources?: FotoscapeImage[];
+  priority?: boolean;
+  className?: string;
+  style?: CSSProperties;
+  alt?: string;
+  draggable?: boolean;
+}> = ({ item, slot, sources, priority, className, style, alt = "thumbnail", draggable }) => {
+  const { findImage } = useContext(SoftboxContext);
+  const block = useContext(BlockContext);
+  const [loaded, setLoaded] = useState(false);
+
+  const selection = selectImages(findImage, sources || [...item.previews, ...item.images], slot);
+  const eager = priority ?? block.position === 0;
+
+  let imageStyle: CSSProperties = { ...style };
+  if (!loaded) {
+    imageStyle = {
+      ...imageStyle,
+      backgroundColor: placeholderColor,
+      backgroundImage: selection && selection.placeholder ? `url("${selection.placeholder}")` : undefined,
+      backgroundSize: "cover",
+      backgroundPosition: "center",
+    };
+  }
+
+  return (
+    <img
+      className={className}
+      style={imageStyle}
+      alt={alt}
+      src={selection ? selection.src : item.imageUrl}
+      srcSet={selection ? selection.srcSet : undefined}
+      sizes={selection ? selection.sizes : undefined}
+      width={slot.width}
+      height={slot.height}
+      loading={eager ? "eager" : "lazy"}
+      decoding="async"
+      draggable={draggable}
+      onLoad={() => setLoaded(true)}
+    />
+  );
+};
+
+export default ResponsiveImage;
@@ -1,4 +1,4 @@
-import { Fragment } from "react";
+import { Fragment, useContext, useEffect, useMemo } from "react";
 import BlockFotoscape from "./Blocks/BlockFotoscape";
 import BlockOutbrain from "./Blocks/BlockOutbrain";
 import BlockRevealMemes from "./Blocks/BlockRevealMemes";
@@ -10,26 +10,51 @@ import {
   BlockRevealMemesConfig,
   BlockAdConfig,
 } from "../definition";
+import SoftboxContext from "../store/softbox-context";
+import { allocateItems } from "../allocator";
+import useCoordination from "../hooks/use-coordination";
+import useMessages from "../hooks/use-messages";
 
 const Section: React.FC<{
   template: ValidBlockConfig[]; 
 }> = ({template}) => {
+  const ctx = useContext(SoftboxContext);
+  const t = useMessages();
+  const { excluded, claim } = useCoordination(ctx.coordination);
+  const allocation = useMemo(
+    () => allocateItems(template, ctx.content, excluded),
+    [template, ctx.content, excluded]
+  );
+
+  // Let later widgets in the coordination group skip what we show.
+  useEffect(() => {
+    claim(allocation.flat().map((item) => item.uid));
+  }, [allocation, claim]);
+
   return (
     <Fragment>
-      {template.map((item) => {
+      {template.map((item, index) => {
+        const key = `block-${index}`;
         switch (item.blockType) {
           case "fotoscape_block":
-            return <BlockFotoscape key={Math.random()} configs={item as BlockFotoscapeConfig} />;
+            return (
+              <BlockFotoscape
+                key={key}
+                configs={item as BlockFotoscapeConfig}
+                items={allocation[index]}
+                position={index}
+              />
+            );
           case "outbrain_block":
-            return <BlockOutbrain key={Math.random()} configs={item as BlockOutbrainConfig} />;
+            return <BlockOutbrain key={key} configs={item as BlockOutbrainConfig} position={index} />;
           case "memes_widget_block":
             return (
-              <BlockRevealMemes key={Math.random()} configs={item as BlockRevealMemesConfig} />
+              <BlockRevealMemes key={key} configs={item as BlockRevealMemesConfig} position={index} />
             );
           case "ad_unit":
-            return <BlockAd key={Math.random()} configs={item as BlockAdConfig} />;
+            return <BlockAd key={key} configs={item as BlockAdConfig} position={index} />;
           default:
-            return <div key={Math.random()}>Block Type not recognized</div>;
+            return <div key={key}>{t("error.unknownBlock")}</div>;
         }
       })}
     </Fragment>
@@ -0,0 +1,109 @@
+import type * as ConsentModule from "./consent";
+import type * as StorageModule from "./storage";
+
+type TcfCallback = (tcData: unknown, success: boolean) => void;
+type TestWindow = Window & { __tcfapi?: (command: string, version: number, callback: TcfCallback) => void };
+
+// consent.ts keeps page-wide state, so every test loads it afresh.
+const load = () => {
+  let modules: { consent: typeof ConsentModule; storage: typeof StorageModule } | null = null;
+  jest.isolateModules(() => {
+    modules = { consent: require("./consent"), storage: require("./storage") };
+  });
+  return modules!;
+};
+
+// Install a fake CMP and return a function answering with `tcData`.
+const fakeCmp = () => {
+  let listener: TcfCallback | null = null;
+  (window as TestWindow).__tcfapi = (command, version, callback) => {
+    listener = callback;
+  };
+  return (tcData: unknown, success = true) => listener!(tcData, success);
+};
+
+const tcData = (consents: number[], legitimateInterests: number[] = []) => ({
+  gdprApplies: true,
+  eventStatus: "useractioncomplete",
+  purpose: {
+    consents: Object.fromEntries(consents.map((id) => [id, true])),
+    legitimateInterests: Object.fromEntries(legitimateInterests.map((id) => [id, true])),
+  },
+});
+
+beforeEach(() => {
+  window.localStorage.clear();
+  delete (window as TestWindow).__tcfapi;
+});
+
+describe("TCF consent", () => {
+  it("grants everything on pages without a consent framework", () => {
+    const { consent } = load();
+    consent.initConsent();
+    expect(consent.consentStatus()).toBe("none");
+    expect(consent.getConsent()).toEqual({ storage: true, personalization: true, measurement: true });
+  });
+
+  it("refuses everything until the CMP answers", () => {
+    const { consent } = load();
+    const answer = fakeCmp();
+    consent.initConsent();
+    expect(consent.consentStatus()).toBe("pending");
+    answer({ gdprApplies: true, eventStatus: "cmpuishown" });
+    expect(consent.consentStatus()).toBe("pending");
+    expect(consent.hasConsent("storage")).toBe(false);
+  });
+
+  it.each([
+    ["all purposes", [1, 5, 6, 8], [], { storage: true, personalization: true, measurement: true }],
+    ["storage only", [1], [], { storage: true, personalization: false, measurement: false }],
+    ["profiles without storage", [5, 6], [], { storage: false, personalization: false, measurement: false }],
+    ["measurement by legitimate interest", [1], [8], { storage: true, personalization: false, measurement: true }],
+  ])("maps %s", (name, consents, interests, expected) => {
+    const { consent } = load();
+    const answer = fakeCmp();
+    consent.initConsent();
+    answer(tcData(consents, interests));
+    expect(consent.consentStatus()).toBe("resolved");
+    expect(consent.getConsent()).toEqual(expected);
+  });
+
+  it("grants everything where GDPR doesn't apply", () => {
+    const { consent } = load();
+    const answer = fakeCmp();
+    consent.initConsent();
+    answer({ gdprApplies: false });
+    expect(consent.hasConsent("personalization")).toBe(true);
+  });
+});
+
+describe("setConsent", () => {
+  it("purges personal data when personalization is refused", () => {
+    const { consent, storage } = load();
+    consent.registerPersonalData("weights");
+    storage.getStorage().set("weights", "{}");
+    storage.getStorage().set("feed-cache", "{}");
+
+    consent.setConsent({ storage: true, personalization: false });
+    expect(window.localStorage.getItem("weights")).toBeNull();
+    expect(window.localStorage.getItem("feed-cache")).toBe("{}");
+  });
+
+  it("keeps personal data while personalization is allowed", () => {
+    const { consent, storage } = load();
+    consent.registerPersonalData("weights");
+    storage.getStorage().set("weights", "{}");
+    consent.setConsent(true);
+    expect(window.localStorage.getItem("weights")).toBe("{}");
+  });
+
+  it("tells listeners about every update", () => {
+    const { consent } = load();
+    const listener = jest.fn();
+    const unsubscribe = consent.onConsentChange(listener);
+    consent.setConsent(false);
+    unsubscribe();
+    consent.setConsent(true);
+    expect(listener.mock.calls).toEqual([[{ storage: false, personalization: false, measurement: false }]]);
+  });
+});
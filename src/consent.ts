@@ -0,0 +1,142 @@
+import { purgeStored, setStoragePermitted } from "./storage";
+
+// What the user has agreed to. Until consent is known the widget stores
+// nothing, shows unpersonalized content and sends no tracking events.
+export type ConsentPurpose = "storage" | "personalization" | "measurement";
+export type Consent = Record<ConsentPurpose, boolean>;
+
+// "none" when the page has no consent framework, "pending" while
+// waiting for one to answer, "resolved" once it has.
+export type ConsentStatus = "none" | "pending" | "resolved";
+
+// Host-supplied consent source: called once with a function the host
+// calls whenever consent is known or changes. `true`/`false` grant or
+// refuse everything.
+export type ConsentCallback = (update: (consent: boolean | Partial<Consent>) => void) => void;
+
+// The parts of IAB TCF v2 TCData we read.
+type TcfData = {
+  gdprApplies?: boolean;
+  eventStatus?: "tcloaded" | "cmpuishown" | "useractioncomplete";
+  purpose?: {
+    consents?: { [id: number]: boolean };
+    legitimateInterests?: { [id: number]: boolean };
+  };
+};
+
+type TcfApi = (
+  command: string,
+  version: number,
+  callback: (tcData: TcfData, success: boolean) => void
+) => void;
+
+type ConsentWindow = Window & {
+  __tcfapi?: TcfApi;
+  softboxConsent?: ConsentCallback;
+};
+
+const allGranted: Consent = { storage: true, personalization: true, measurement: true };
+const noneGranted: Consent = { storage: false, personalization: false, measurement: false };
+
+let status: ConsentStatus = "none";
+let consent: Consent = allGranted;
+const listeners = new Set<(consent: Consent) => void>();
+const personalDataKeys: string[] = [];
+
+// Map TCF purposes onto ours: 1 store/access information on a device,
+// 5 and 6 build and use a personalised content profile, 8 measure
+// content performance. Returns null while the CMP has no answer yet.
+const fromTcData = (tcData: TcfData): Consent | null => {
+  if (tcData.gdprApplies === false) {
+    return allGranted;
+  }
+  if (tcData.eventStatus !== "tcloaded" && tcData.eventStatus !== "useractioncomplete") {
+    return null;
+  }
+  const consents = tcData.purpose?.consents || {};
+  const interests = tcData.purpose?.legitimateInterests || {};
+  const storage = !!consents[1];
+  return {
+    storage,
+    personalization: storage && !!consents[5] && !!consents[6],
+    measurement: !!(consents[8] || interests[8]),
+  };
+};
+
+// Storage keys holding data about the user, deleted when consent to
+// personalization is refused or withdrawn.
+export const registerPersonalData = (key: string) => {
+  if (!personalDataKeys.includes(key)) {
+    personalDataKeys.push(key);
+  }
+};
+
+export const hasConsent = (purpose: ConsentPurpose) => consent[purpose];
+
+export const consentStatus = () => status;
+
+export const getConsent = (): Consent => ({ ...consent });
+
+// Call `listener` with every consent update. Returns an unsubscribe
+// function.
+export const onConsentChange = (listener: (consent: Consent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Record the user's consent. Purposes left out of a partial update are
+// treated as refused.
+export const setConsent = (update: boolean | Partial<Consent>) => {
+  if (typeof update === "boolean") {
+    consent = update ? allGranted : noneGranted;
+  } else {
+    consent = { ...noneGranted, ...update };
+  }
+  status = "resolved";
+  setStoragePermitted(consent.storage);
+  // Refusal may have happened on another page, so purge on every
+  // update without consent, not only on a change.
+  if (!consent.personalization) {
+    purgeStored(personalDataKeys);
+  }
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(getConsent());
+    } catch (err) {
+      console.error(`Consent listener failed: ${(err as Error).message}`);
+    }
+  }
+};
+
+// Find the page's consent source and wait for it: a host callback
+// (`callback` or window.softboxConsent) first, then an IAB TCF v2
+// __tcfapi. Pages with neither aren't asking for consent and keep
+// everything enabled.
+export const initConsent = (callback?: ConsentCallback) => {
+  const w = window as ConsentWindow;
+  const hostCallback = callback || w.softboxConsent;
+  if (!hostCallback && typeof w.__tcfapi !== "function") {
+    return;
+  }
+
+  status = "pending";
+  consent = noneGranted;
+  setStoragePermitted(false);
+
+  try {
+    if (hostCallback) {
+      hostCallback(setConsent);
+    } else {
+      w.__tcfapi!("addEventListener", 2, (tcData, success) => {
+        const update = success ? fromTcData(tcData) : null;
+        if (update) {
+          setConsent(update);
+        }
+      });
+    }
+  } catch (err) {
+    console.error(`Consent source failed: ${(err as Error).message}`);
+  }
+};
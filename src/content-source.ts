@@ -0,0 +1,111 @@
+// Where a widget gets its daily feeds from. Every source turns a sched
+// name (category) into the raw feed JSON; validation and
+// personalization happen afterwards in the same code path for all of
+// them.
+export interface ContentSource {
+  // Identifies the exact feed a sched maps to (base URL, ckey, aspect
+  // and params), so different configurations never share cached data.
+  key: (sched: string) => string;
+  fetchSched: (sched: string) => Promise<unknown>;
+}
+
+export type SchedFetcher = (sched: string) => Promise<unknown>;
+
+export type FotoscapesSourceConfig = {
+  type: "fotoscapes";
+  baseUrl?: string;
+  ckey?: string;
+  previewAspect?: string;
+  params?: { [name: string]: string };
+};
+
+export type ContentSourceConfig =
+  | FotoscapesSourceConfig
+  | { type: "fixture" }
+  | { type: "custom"; name: string };
+
+export const defaultBaseUrl = "https://fotoscapes.com/wp/v1/daily";
+export const defaultCkey = "fb529d256155b9c6";
+export const defaultPreviewAspect = "1:1";
+
+// The production fotoscapes daily endpoint.
+export const createFotoscapesSource = (
+  options: Omit<FotoscapesSourceConfig, "type"> = {}
+): ContentSource => {
+  const baseUrl = options.baseUrl || defaultBaseUrl;
+  const requestUrl = (sched: string) => {
+    const query = new URLSearchParams({
+      ...options.params,
+      ckey: options.ckey || defaultCkey,
+      previewAspect: options.previewAspect || defaultPreviewAspect,
+      sched,
+    });
+    return `${baseUrl}${baseUrl.includes("?") ? "&" : "?"}${query.toString()}`;
+  };
+
+  return {
+    key: requestUrl,
+    fetchSched: async (sched: string) => {
+      const url = requestUrl(sched);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Request failed: ${url}`);
+      }
+      return response.json();
+    },
+  };
+};
+
+// Serve the recorded payload in dummy-data for every sched. It is
+// loaded on demand so production bundles don't carry it.
+export const createFixtureSource = (): ContentSource => {
+  return {
+    key: (sched: string) => `fixture:${sched}`,
+    fetchSched: async () => {
+      const fixture = await import("./dummy-data/softbox-payload");
+      // Hand out a copy; scoring writes into the items it is given.
+      return JSON.parse(JSON.stringify(fixture.default));
+    },
+  };
+};
+
+// Wrap a caller-supplied fetcher.
+export const createCustomSource = (name: string, fetcher: SchedFetcher): ContentSource => {
+  return {
+    key: (sched: string) => `custom:${name}:${sched}`,
+    fetchSched: fetcher,
+  };
+};
+
+const customFetchers = new Map<string, SchedFetcher>();
+
+// Make a fetcher available to { "type": "custom", "name": ... } configs.
+// Host pages that can't import this module can set
+// window.softboxSources[name] instead.
+export const registerContentSource = (name: string, fetcher: SchedFetcher) => {
+  customFetchers.set(name, fetcher);
+};
+
+const findCustomFetcher = (name: string): SchedFetcher | undefined => {
+  const w = window as Window & { softboxSources?: { [name: string]: SchedFetcher } };
+  return customFetchers.get(name) ?? w.softboxSources?.[name];
+};
+
+// Build the source a widget should use. `feedKey` is the older
+// PageConfig shorthand for the fotoscapes ckey.
+export const resolveContentSource = (config?: ContentSourceConfig, feedKey?: string): ContentSource => {
+  if (!config || config.type === "fotoscapes") {
+    return createFotoscapesSource({ ...config, ckey: config?.ckey || feedKey });
+  }
+  if (config.type === "fixture") {
+    return createFixtureSource();
+  }
+  const name = config.name;
+  return createCustomSource(name, (sched: string) => {
+    const fetcher = findCustomFetcher(name);
+    if (!fetcher) {
+      return Promise.reject(new Error(`No content source registered as "${name}"`));
+    }
+    return fetcher(sched);
+  });
+};
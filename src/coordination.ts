@@ -0,0 +1,72 @@
+// Widgets on one page that share a coordination group don't show the
+// same items. Each widget claims the uids it shows; a widget skips the
+// uids claimed by widgets earlier on the page (lower `order`). Claims
+// only flow down the page, so updating them can't loop: a widget
+// re-allocates when an earlier one changes, never the other way round.
+
+type Claim = { order: number; uids: Set<string> };
+
+const groups = new Map<string, Map<string, Claim>>();
+const listeners = new Map<string, Set<() => void>>();
+
+const claimsOf = (group: string) => {
+  let claims = groups.get(group);
+  if (!claims) {
+    claims = new Map();
+    groups.set(group, claims);
+  }
+  return claims;
+};
+
+const notify = (group: string) => {
+  listeners.get(group)?.forEach((listener) => listener());
+};
+
+// The uids claimed in `group` by widgets before `order`.
+export const claimedBefore = (group: string, order: number) => {
+  const taken = new Set<string>();
+  claimsOf(group).forEach((claim) => {
+    if (claim.order < order) {
+      claim.uids.forEach((uid) => taken.add(uid));
+    }
+  });
+  return taken;
+};
+
+// Replace the uids `widgetId` shows. Listeners only hear about real
+// changes.
+export const setClaims = (group: string, widgetId: string, order: number, uids: string[]) => {
+  const claims = claimsOf(group);
+  const previous = claims.get(widgetId);
+  const next = new Set(uids);
+  if (
+    previous &&
+    previous.order === order &&
+    previous.uids.size === next.size &&
+    uids.every((uid) => previous.uids.has(uid))
+  ) {
+    return;
+  }
+  claims.set(widgetId, { order, uids: next });
+  notify(group);
+};
+
+export const releaseClaims = (group: string, widgetId: string) => {
+  if (claimsOf(group).delete(widgetId)) {
+    notify(group);
+  }
+};
+
+// Call `listener` whenever claims in `group` change. Returns an
+// unsubscribe function.
+export const subscribeClaims = (group: string, listener: () => void) => {
+  let set = listeners.get(group);
+  if (!set) {
+    set = new Set();
+    listeners.set(group, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+  };
+};
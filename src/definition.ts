@@ -1,3 +1,10 @@
+import { ContentSourceConfig } from "./content-source";
+import { CategoryAssignmentConfig } from "./category-assignment";
+import { ImpressionConfig } from "./hooks/use-impression";
+import { SinkConfig } from "./analytics/sinks";
+import { HistorySettings } from "./personalize";
+import { PartnerConfig } from "./partners";
+
 export interface Block{
     blockType: string; 
   }
@@ -10,13 +17,37 @@ export interface Block{
   export type ItemList = FotoscapeItem[];
   
   
+  export type FotoscapeImage = {
+    link: string;
+    width: number;
+    height: number;
+  }
+
+  // Ken Burns pan/zoom for a lookbook. X/Y are the focal point as a
+  // fraction of the image, B is the fraction of the image kept in view.
+  export type KenBurns = {
+    startX: number;
+    startY: number;
+    startB: number;
+    endX: number;
+    endY: number;
+    endB: number;
+  }
+
   export type FotoscapeItem = {
     title: string;
     url: string;
     imageUrl: string;
     description: string; 
     uid: string; 
-    interests: any; 
+    interests: string[]; 
+    previews: FotoscapeImage[];
+    images: FotoscapeImage[];
+    kb?: KenBurns;
+    sourceLink?: string; // The original publisher's page, for referrals.
+    owner?: string; // Brand behind the lookbook.
+    brandLogo?: string; // URL of the owner's logo.
+    lang?: string; // Language of title and description, when known.
   }
   
   
@@ -52,15 +83,23 @@ export interface Block{
   
     export interface PageConfig {
       categories: string[]; 
+      feedKey?: string; // fotoscapes ckey, shorthand for source.ckey.
+      source?: ContentSourceConfig;
+      assignment?: CategoryAssignmentConfig; // Defaults to round-robin.
+      impressions?: Partial<ImpressionConfig>;
+      history?: HistorySettings; // Clicked/seen cooldowns, see personalize.ts.
+      coordinate?: boolean | string; // Group of widgets that avoid showing the same items; true joins the page-wide group.
+      partners?: PartnerConfig; // Scripts behind third-party blocks.
+      analytics?: { sinks: SinkConfig[] }; // Defaults to dataLayer only.
     }
   export interface BlockFotoscapeConfig {
     blockType: 'fotoscape_block';
     settings: {
       count: number;
       category?: string; //differs from definition.ts
-      layout: string;
+      layout: BlockSettingLayout | (string & {});
       cta?: boolean;
-      title?: "string";
+      title?: string;
       link_destination?: "fotoscape" | "full_page_article" | "referral" | "stub";
       transition?: boolean;
       layout_config?: {
@@ -89,12 +128,27 @@ export interface Block{
     };
   }
   
+  export type RevealAnimation = 'fade' | 'slide' | 'flip';
+
   export interface BlockRevealMemesConfig extends Block {
     blockType: 'memes_widget_block'
+    settings: {
+      category: string; // Memes sched, fetched like any other category.
+      count?: number; // Memes cycled through before starting over. Defaults to 10.
+      animation?: RevealAnimation; // How the punchline appears. Defaults to fade.
+    }
   }
   
   export interface BlockAdConfig extends Block {
     blockType: 'ad_unit'
+    settings: {
+      adUnitPath: string; // e.g. "/1234567/softbox_feed".
+      sizes: [number, number][]; // Creative sizes the slot accepts.
+      targeting?: { [key: string]: string | string[] };
+      lazyMargin?: number; // Pixels from the viewport at which to request the ad. Defaults to 200.
+      refreshSeconds?: number; // Refresh after this long in view; at least 30. No refresh when missing.
+      collapseEmpty?: boolean; // Hide the slot when no ad fills. Defaults to true.
+    }
   }
   
   
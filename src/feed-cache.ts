@@ -0,0 +1,123 @@
+import { FeedPayload, validateFeed } from "./feed";
+import { getStorage } from "./storage";
+
+// Daily feeds cached in persistent storage (storage.ts), keyed by ContentSource.key() (so
+// by sched, ckey, aspect and any other request parameters). Entries
+// expire at the feed's own `ttl`; expired entries are still returned,
+// marked stale, so the widget can render from them while it refreshes.
+
+const entryPrefix = "softbox-feed:";
+const indexKey = "softbox-feed-index";
+
+const defaultTtl = 30 * 60 * 1000; // Used when a feed has no usable ttl.
+const maxEntries = 12; // Most feeds kept at once.
+const maxBytes = 2 * 1024 * 1024; // Most characters kept across all feeds.
+
+type CacheEntry = {
+  savedAt: number;
+  expiresAt: number;
+  payload: FeedPayload;
+};
+
+// Bookkeeping for eviction: cache key to last write time and size.
+type CacheIndex = {
+  [key: string]: { savedAt: number; size: number };
+};
+
+export type CachedFeed = {
+  payload: FeedPayload;
+  fresh: boolean;
+};
+
+const readIndex = (): CacheIndex => {
+  const index = getStorage().getJSON<CacheIndex>(indexKey);
+  return index !== null && typeof index === "object" ? index : {};
+};
+
+// The index is only used for eviction; failing to write it is harmless.
+const writeIndex = (index: CacheIndex) => {
+  getStorage().setJSON(indexKey, index);
+};
+
+const removeEntry = (index: CacheIndex, key: string) => {
+  getStorage().remove(entryPrefix + key);
+  delete index[key];
+};
+
+// Drop the oldest entries until there is room for `incoming` more
+// characters and one more entry.
+const evict = (index: CacheIndex, incoming: number) => {
+  const keys = Object.keys(index).sort((a, b) => index[a].savedAt - index[b].savedAt);
+  let total = keys.reduce((sum, key) => sum + index[key].size, 0);
+  while (keys.length > 0 && (keys.length >= maxEntries || total + incoming > maxBytes)) {
+    const key = keys.shift()!;
+    total -= index[key].size;
+    removeEntry(index, key);
+  }
+};
+
+const expiryOf = (payload: FeedPayload, savedAt: number) => {
+  const ttl = payload.ttl ? Date.parse(payload.ttl) : NaN;
+  return isNaN(ttl) ? savedAt + defaultTtl : ttl;
+};
+
+// Return the cached feed for `key`, or null if there is none (or it is
+// unreadable, in which case it is removed).
+export const readFeedCache = (key: string): CachedFeed | null => {
+  const entry = getStorage().getJSON<CacheEntry>(entryPrefix + key);
+  if (!entry) {
+    return null;
+  }
+  const payload = typeof entry === "object" ? validateFeed(entry.payload).payload : null;
+  if (!payload || typeof entry.expiresAt !== "number") {
+    invalidateFeedCache(key);
+    return null;
+  }
+  return { payload, fresh: Date.now() < entry.expiresAt };
+};
+
+// Store a validated feed under `key`, evicting older feeds to stay
+// within the entry and size limits.
+export const writeFeedCache = (key: string, payload: FeedPayload) => {
+  const savedAt = Date.now();
+  const entry: CacheEntry = { savedAt, expiresAt: expiryOf(payload, savedAt), payload };
+  const value = JSON.stringify(entry);
+  if (value.length > maxBytes) {
+    return;
+  }
+
+  const storage = getStorage();
+  const index = readIndex();
+  if (index[key]) {
+    removeEntry(index, key);
+  }
+  evict(index, value.length);
+  let stored = storage.set(entryPrefix + key, value);
+  if (!stored) {
+    // Probably over quota because of other data on the page; clear
+    // every cached feed and try once more.
+    Object.keys(index).forEach((k) => removeEntry(index, k));
+    stored = storage.set(entryPrefix + key, value);
+  }
+  if (stored) {
+    index[key] = { savedAt, size: value.length };
+  } else {
+    console.warn(`Could not cache feed ${key}`);
+  }
+  writeIndex(index);
+};
+
+// Remove cached feeds. With no argument everything goes; a string
+// removes that exact key; a function removes every key it accepts.
+export const invalidateFeedCache = (match?: string | ((key: string) => boolean)) => {
+  const index = readIndex();
+  for (const key of Object.keys(index)) {
+    if (match === undefined || (typeof match === "string" ? key === match : match(key))) {
+      removeEntry(index, key);
+    }
+  }
+  if (typeof match === "string") {
+    getStorage().remove(entryPrefix + match);
+  }
+  writeIndex(index);
+};
@@ -0,0 +1,67 @@
+import { describeDropped, validateFeed, validateFeedItem } from "./feed";
+
+const image = { link: "https://example.com/a.jpg", width: 640, height: 360 };
+
+const rawItem = (overrides: { [key: string]: unknown } = {}) => ({
+  uid: "lk1",
+  title: { en: "Title" },
+  summary: "Summary",
+  link: "https://fotoscapes.com/lk1",
+  interests: ["i1", "i2"],
+  previews: [image],
+  ...overrides,
+});
+
+describe("validateFeedItem", () => {
+  it("fills in defaults for optional fields", () => {
+    const result = validateFeedItem(rawItem({ summary: undefined }));
+    expect(result).toEqual({
+      item: expect.objectContaining({ uid: "lk1", summary: "", images: [], promote: false, boost: 0 }),
+    });
+  });
+
+  it.each([
+    ["missing uid", rawItem({ uid: "" })],
+    ["missing interests", rawItem({ interests: [] })],
+    ["missing title", rawItem({ title: 5 })],
+    ["missing link", rawItem({ link: undefined })],
+    ["empty previews", rawItem({ previews: [] })],
+    ["malformed preview image", rawItem({ previews: [{ link: "x" }] })],
+    ["malformed kb", rawItem({ kb: { startX: 1 } })],
+    ["malformed boost", rawItem({ boost: "high" })],
+    ["malformed owner", rawItem({ owner: 7 })],
+    ["item is not an object", "not an item"],
+  ])("reports %s", (reason, raw) => {
+    expect(validateFeedItem(raw)).toEqual({ reason });
+  });
+});
+
+describe("validateFeed", () => {
+  it("fails outright on payloads that aren't feeds", () => {
+    expect(validateFeed(null).error).toBe("feed is not an object");
+    expect(validateFeed({ items: {} }).error).toBe("feed has no items array");
+    expect(validateFeed({ items: [], ttl: 60 }).error).toBe("malformed ttl");
+  });
+
+  it("drops and reports bad items and interests but keeps the rest", () => {
+    const validation = validateFeed({
+      ver: "1",
+      interests: {
+        i1: { name: { en: "One" }, weight: 0.5 },
+        i2: { name: { en: "Two" } },
+        i3: { weight: 0.1 },
+      },
+      items: [rawItem(), rawItem({ uid: "lk2", link: "" }), { title: "no uid" }],
+    });
+
+    expect(validation.payload?.items.map((item) => item.uid)).toEqual(["lk1"]);
+    expect(Object.keys(validation.payload!.interests)).toEqual(["i1"]);
+    expect(validation.dropped).toEqual([
+      { kind: "interest", uid: "i2", reason: "missing weight" },
+      { kind: "interest", uid: "i3", reason: "missing name" },
+      { kind: "item", index: 1, uid: "lk2", reason: "missing link" },
+      { kind: "item", index: 2, uid: undefined, reason: "missing uid" },
+    ]);
+    expect(describeDropped(validation.dropped[3])).toBe("Dropped item #2: missing uid");
+  });
+});
@@ -0,0 +1,220 @@
+import { FotoscapeImage, KenBurns } from "./definition";
+
+// Typed model of the daily feed returned by fotoscapes.com/wp/v1/daily.
+// The format is documented at the top of personalize.ts.
+
+// Either a plain string or a map of language code to text.
+export type Translations = string | { [languageCode: string]: string };
+
+export type FeedImage = FotoscapeImage;
+
+export type FeedInterest = {
+  name: Translations;
+  weight: number;
+};
+
+export type FeedInterests = {
+  [uid: string]: FeedInterest;
+};
+
+export type FeedItem = {
+  uid: string;
+  title: Translations;
+  summary: Translations;
+  link: string;
+  sourceLink?: string;
+  lbtype?: string;
+  interests: string[];
+  images: FeedImage[];
+  previews: FeedImage[];
+  kb?: KenBurns;
+  owner?: string;
+  brandLogo?: string;
+  brandLogoDark?: string;
+  numImages?: number;
+  promote: boolean;
+  boost: number;
+  publishOn?: string;
+  scheduledOn?: string;
+};
+
+export type FeedPayload = {
+  ver: string;
+  status?: { http: number; lkbk: string };
+  interests: FeedInterests;
+  items: FeedItem[];
+  gen?: string;
+  ttl?: string;
+};
+
+// One entry per item or interest the validator threw away.
+export type DroppedEntry = {
+  kind: "item" | "interest";
+  index?: number;
+  uid?: string;
+  reason: string;
+};
+
+export type FeedValidation = {
+  payload: FeedPayload | null;
+  dropped: DroppedEntry[];
+  error?: string;
+};
+
+type Raw = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is Raw => {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+};
+
+const isNumber = (value: unknown): value is number => {
+  return typeof value === "number" && isFinite(value);
+};
+
+const isOptionalString = (value: unknown) => {
+  return value === undefined || typeof value === "string";
+};
+
+const isTranslations = (value: unknown): value is Translations => {
+  if (typeof value === "string") {
+    return true;
+  }
+  return isObject(value) && Object.values(value).every((text) => typeof text === "string");
+};
+
+const isImage = (value: unknown): value is FeedImage => {
+  return (
+    isObject(value) &&
+    typeof value.link === "string" &&
+    value.link.length > 0 &&
+    isNumber(value.width) &&
+    isNumber(value.height)
+  );
+};
+
+const isKenBurns = (value: unknown): value is KenBurns => {
+  if (!isObject(value)) {
+    return false;
+  }
+  const fields = ["startX", "startY", "startB", "endX", "endY", "endB"];
+  return fields.every((field) => isNumber(value[field]));
+};
+
+// Check a single feed item. Returns the normalized item, or the reason
+// it has to be dropped.
+export const validateFeedItem = (raw: unknown): { item: FeedItem } | { reason: string } => {
+  if (!isObject(raw)) {
+    return { reason: "item is not an object" };
+  }
+  if (typeof raw.uid !== "string" || raw.uid.length === 0) {
+    return { reason: "missing uid" };
+  }
+  if (
+    !Array.isArray(raw.interests) ||
+    raw.interests.length === 0 ||
+    !raw.interests.every((interest) => typeof interest === "string")
+  ) {
+    return { reason: "missing interests" };
+  }
+  if (!isTranslations(raw.title)) {
+    return { reason: "missing title" };
+  }
+  if (raw.summary !== undefined && !isTranslations(raw.summary)) {
+    return { reason: "malformed summary" };
+  }
+  if (typeof raw.link !== "string" || raw.link.length === 0) {
+    return { reason: "missing link" };
+  }
+  if (!Array.isArray(raw.previews) || raw.previews.length === 0) {
+    return { reason: "empty previews" };
+  }
+  if (!raw.previews.every(isImage)) {
+    return { reason: "malformed preview image" };
+  }
+  if (raw.images !== undefined && !(Array.isArray(raw.images) && raw.images.every(isImage))) {
+    return { reason: "malformed images" };
+  }
+  if (raw.kb !== undefined && !isKenBurns(raw.kb)) {
+    return { reason: "malformed kb" };
+  }
+  if (raw.boost !== undefined && !isNumber(raw.boost)) {
+    return { reason: "malformed boost" };
+  }
+  const optionalStrings = [
+    "sourceLink",
+    "lbtype",
+    "owner",
+    "brandLogo",
+    "brandLogoDark",
+    "publishOn",
+    "scheduledOn",
+  ];
+  for (const field of optionalStrings) {
+    if (!isOptionalString(raw[field])) {
+      return { reason: `malformed ${field}` };
+    }
+  }
+
+  const item = {
+    ...raw,
+    summary: raw.summary ?? "",
+    images: raw.images ?? [],
+    promote: raw.promote === true,
+    boost: raw.boost ?? 0,
+  } as FeedItem;
+  return { item };
+};
+
+// Check a whole daily feed payload. Bad items and interests are dropped
+// and reported; only a payload that isn't a feed at all fails outright.
+export const validateFeed = (raw: unknown): FeedValidation => {
+  const dropped: DroppedEntry[] = [];
+  if (!isObject(raw)) {
+    return { payload: null, dropped, error: "feed is not an object" };
+  }
+  if (!Array.isArray(raw.items)) {
+    return { payload: null, dropped, error: "feed has no items array" };
+  }
+  if (raw.ttl !== undefined && typeof raw.ttl !== "string") {
+    return { payload: null, dropped, error: "malformed ttl" };
+  }
+
+  const interests: FeedInterests = {};
+  if (isObject(raw.interests)) {
+    for (const uid in raw.interests) {
+      const interest = raw.interests[uid];
+      if (!isObject(interest) || !isTranslations(interest.name)) {
+        dropped.push({ kind: "interest", uid, reason: "missing name" });
+      } else if (!isNumber(interest.weight)) {
+        dropped.push({ kind: "interest", uid, reason: "missing weight" });
+      } else {
+        interests[uid] = { name: interest.name, weight: interest.weight };
+      }
+    }
+  }
+
+  const items: FeedItem[] = [];
+  raw.items.forEach((rawItem: unknown, index: number) => {
+    const result = validateFeedItem(rawItem);
+    if ("item" in result) {
+      items.push(result.item);
+    } else {
+      const uid = isObject(rawItem) && typeof rawItem.uid === "string" ? rawItem.uid : undefined;
+      dropped.push({ kind: "item", index, uid, reason: result.reason });
+    }
+  });
+
+  const payload = {
+    ...raw,
+    ver: typeof raw.ver === "string" ? raw.ver : "",
+    interests,
+    items,
+  } as FeedPayload;
+  return { payload, dropped };
+};
+
+// Readable one-line summary of a dropped entry for console output.
+export const describeDropped = (entry: DroppedEntry) => {
+  const name = entry.uid ? `${entry.kind} ${entry.uid}` : `${entry.kind} #${entry.index}`;
+  return `Dropped ${name}: ${entry.reason}`;
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export const articleParameter = "softbox-article";
+
+export type OpenArticle = {
+  uid: string;
+  transition: boolean; // Animate the overlay in and out.
+};
+
+// The lookbook a widget shows in its article overlay lives in the page
+// URL as ?softbox-article=<widgetId>:<uid>, so it can be linked to and
+// Back closes it.
+const readArticleParameter = (widgetId: string) => {
+  const value = new URLSearchParams(window.location.search).get(articleParameter);
+  const prefix = `${widgetId}:`;
+  return value && value.startsWith(prefix) ? value.slice(prefix.length) : null;
+};
+
+// The page URL with `uid` open in `widgetId`'s overlay, or with no
+// overlay open when `uid` is null.
+export const articleUrl = (widgetId: string, uid: string | null) => {
+  const url = new URL(window.location.href);
+  if (uid === null) {
+    url.searchParams.delete(articleParameter);
+  } else {
+    url.searchParams.set(articleParameter, `${widgetId}:${uid}`);
+  }
+  return url.toString();
+};
+
+const useArticle = (widgetId: string) => {
+  const [article, setArticle] = useState<OpenArticle | null>(() => {
+    const uid = readArticleParameter(widgetId);
+    return uid ? { uid, transition: false } : null;
+  });
+  // True while the open article is a history entry we pushed.
+  const pushed = useRef(false);
+
+  useEffect(() => {
+    const popHandler = () => {
+      pushed.current = false;
+      const uid = readArticleParameter(widgetId);
+      setArticle(uid ? { uid, transition: false } : null);
+    };
+    window.addEventListener("popstate", popHandler);
+    return () => window.removeEventListener("popstate", popHandler);
+  }, [widgetId]);
+
+  const openArticle = useCallback(
+    (uid: string, transition: boolean) => {
+      setArticle({ uid, transition });
+      window.history.pushState(null, "", articleUrl(widgetId, uid));
+      pushed.current = true;
+    },
+    [widgetId]
+  );
+
+  const closeArticle = useCallback(() => {
+    setArticle(null);
+    if (pushed.current) {
+      pushed.current = false;
+      window.history.back();
+    } else {
+      window.history.replaceState(null, "", articleUrl(widgetId, null));
+    }
+  }, [widgetId]);
+
+  return { article, openArticle, closeArticle };
+};
+
+export default useArticle;
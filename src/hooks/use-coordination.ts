@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { claimedBefore, releaseClaims, setClaims, subscribeClaims } from "../coordination";
+
+export type Coordination = {
+  group: string;
+  widgetId: string;
+  order: number; // Position of the widget on the page.
+};
+
+// Uids this widget must skip because earlier widgets in its group show
+// them, and a function to claim the uids it shows itself. Without a
+// group nothing is skipped or claimed.
+const useCoordination = (coordination: Coordination | null) => {
+  const group = coordination && coordination.group;
+  const widgetId = coordination ? coordination.widgetId : "";
+  const order = coordination ? coordination.order : 0;
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (group === null) {
+      return;
+    }
+    const unsubscribe = subscribeClaims(group, () => setVersion((v) => v + 1));
+    return () => {
+      unsubscribe();
+      releaseClaims(group, widgetId);
+    };
+  }, [group, widgetId]);
+
+  const excluded = useMemo(
+    () => (group === null ? new Set<string>() : claimedBefore(group, order)),
+    // `version` changes whenever claims in the group do.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [group, order, version]
+  );
+
+  const claim = useCallback(
+    (uids: string[]) => {
+      if (group !== null) {
+        setClaims(group, widgetId, order, uids);
+      }
+    },
+    [group, widgetId, order]
+  );
+
+  return { excluded, claim };
+};
+
+export default useCoordination;
@@ -0,0 +1,63 @@
+import { RefObject, useEffect, useRef } from "react";
+
+export type ImpressionSettings = {
+  visiblePercent: number; // Share of the element that must be on screen.
+  dwellMs: number; // How long it must stay there.
+};
+
+// Page-level impression tracking config (PageConfig.impressions).
+export type ImpressionConfig = ImpressionSettings & {
+  negativeSignal: boolean; // Let unclicked impressions lower weights.
+};
+
+// IAB-style viewability: half the item on screen for one second.
+export const defaultImpressionConfig: ImpressionConfig = {
+  visiblePercent: 50,
+  dwellMs: 1000,
+  negativeSignal: false,
+};
+
+// Call `onImpression` once, the first time the element has been at
+// least `visiblePercent` visible for `dwellMs` without interruption.
+const useImpression = (
+  ref: RefObject<Element>,
+  onImpression: () => void,
+  { visiblePercent, dwellMs }: ImpressionSettings
+) => {
+  const callback = useRef(onImpression);
+  callback.current = onImpression;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const threshold = Math.min(1, Math.max(0, visiblePercent / 100));
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const entry = entries[entries.length - 1];
+        const visible = entry.isIntersecting && entry.intersectionRatio >= threshold;
+        if (visible && timer === null) {
+          timer = setTimeout(() => {
+            observer.disconnect();
+            callback.current();
+          }, dwellMs);
+        } else if (!visible && timer !== null) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      },
+      { threshold: [0, threshold] }
+    );
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+    };
+  }, [ref, visiblePercent, dwellMs]);
+};
+
+export default useImpression;
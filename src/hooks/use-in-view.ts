@@ -0,0 +1,34 @@
+import { RefObject, useEffect, useState } from "react";
+
+// Track whether an element is at least `threshold` visible in the
+// viewport, grown by `rootMargin` (e.g. "200px" to count elements about
+// to scroll in). `initial` is reported until the first observation;
+// browsers without IntersectionObserver always report true.
+const useInView = (ref: RefObject<Element>, threshold = 0, rootMargin = "0px", initial = true) => {
+  const [inView, setInView] = useState(initial);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) {
+      return;
+    }
+    if (typeof IntersectionObserver === "undefined") {
+      setInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          setInView(entry.isIntersecting && entry.intersectionRatio >= threshold);
+        }
+      },
+      { threshold, rootMargin }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, threshold, rootMargin]);
+
+  return inView;
+};
+
+export default useInView;
@@ -0,0 +1,14 @@
+import { useCallback, useContext } from "react";
+import { MessageKey, formatMessage } from "../messages";
+import SoftboxContext from "../store/softbox-context";
+
+// Look up fixed UI strings in the widget's locale.
+const useMessages = () => {
+  const { locale } = useContext(SoftboxContext);
+  return useCallback(
+    (key: MessageKey, params?: { [name: string]: string | number }) => formatMessage(locale, key, params),
+    [locale]
+  );
+};
+
+export default useMessages;
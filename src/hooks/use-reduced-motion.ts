@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+
+const query = "(prefers-reduced-motion: reduce)";
+
+const getMatch = () => {
+  return typeof window !== "undefined" && !!window.matchMedia && window.matchMedia(query).matches;
+};
+
+// True while the user has asked the OS/browser to reduce motion.
+const useReducedMotion = () => {
+  const [reduced, setReduced] = useState(getMatch);
+
+  useEffect(() => {
+    if (!window.matchMedia) {
+      return;
+    }
+    const mediaQuery = window.matchMedia(query);
+    const changeHandler = () => setReduced(mediaQuery.matches);
+    mediaQuery.addEventListener("change", changeHandler);
+    return () => mediaQuery.removeEventListener("change", changeHandler);
+  }, []);
+
+  return reduced;
+};
+
+export default useReducedMotion;
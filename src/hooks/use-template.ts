@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { WidgetConfig } from "../widget-config";
+import { PageTemplate, loadTemplate, readCachedTemplate } from "../template-loader";
+
+// Resolve the layout and page a widget renders. Without a templateUrl
+// this is just the host-page config. With one, render the cached copy
+// (or the host-page config) straight away and swap in the remote
+// template once it loads.
+const useTemplate = (config: WidgetConfig) => {
+  const { templateUrl } = config;
+  const [template, setTemplate] = useState<PageTemplate>(() => {
+    return (templateUrl && readCachedTemplate(templateUrl)) || config;
+  });
+
+  useEffect(() => {
+    if (!templateUrl) {
+      return;
+    }
+    let active = true;
+    loadTemplate(templateUrl)
+      .then((loaded) => {
+        if (active) {
+          setTemplate(loaded);
+        }
+      })
+      .catch((err) => {
+        console.error(`Could not load template ${templateUrl}: ${(err as Error).message}`);
+      });
+    return () => {
+      active = false;
+    };
+  }, [templateUrl]);
+
+  return template;
+};
+
+export default useTemplate;
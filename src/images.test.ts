@@ -0,0 +1,45 @@
+import { selectImages } from "./images";
+import NewPersonalize from "./personalize";
+
+const { findImage } = NewPersonalize();
+
+const image = (width: number, height: number) => ({
+  link: `https://example.com/${width}x${height}.jpg`,
+  width,
+  height,
+});
+
+// Largest first, as feeds list them.
+const sources = [image(1920, 1080), image(960, 540), image(480, 270), image(240, 135), image(120, 68)];
+
+describe("selectImages", () => {
+  it("picks the smallest fitting image per density for the srcset", () => {
+    expect(selectImages(findImage, sources, { width: 300, height: 169 })).toEqual({
+      src: "https://example.com/480x270.jpg",
+      srcSet: [
+        "https://example.com/480x270.jpg 480w",
+        "https://example.com/960x540.jpg 960w",
+      ].join(", "),
+      sizes: "300px",
+      placeholder: "https://example.com/120x68.jpg",
+    });
+  });
+
+  it("lists each image once", () => {
+    const selection = selectImages(findImage, sources, { width: 100, height: 50 });
+    expect(selection!.srcSet).toBe(
+      "https://example.com/120x68.jpg 120w, https://example.com/240x135.jpg 240w, https://example.com/480x270.jpg 480w"
+    );
+    expect(selection!.placeholder).toBeNull();
+  });
+
+  it("falls back to the largest image for slots bigger than any", () => {
+    const selection = selectImages(findImage, sources, { width: 4000, height: 3000, sizes: "100vw" });
+    expect(selection).toMatchObject({ src: sources[0].link, srcSet: `${sources[0].link} 1920w`, sizes: "100vw" });
+  });
+
+  it("ignores unusable images", () => {
+    const unusable = [{ link: "", width: 100, height: 100 }, image(0, 0)];
+    expect(selectImages(findImage, unusable, { width: 10, height: 10 })).toBeNull();
+  });
+});
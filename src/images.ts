@@ -0,0 +1,51 @@
+import { FotoscapeImage } from "./definition";
+
+// The box an image is shown in, in CSS pixels. Every layout declares
+// the slots it renders so images can be picked to fit them.
+export type SlotSize = {
+  width: number;
+  height: number;
+  sizes?: string; // `sizes` attribute; defaults to the fixed slot width.
+};
+
+export type ImageFinder = (images: FotoscapeImage[], w: number, h: number) => FotoscapeImage | undefined;
+
+export type ImageSelection = {
+  src: string;
+  srcSet: string;
+  sizes: string;
+  placeholder: string | null; // Smallest image, stretched over the slot while loading.
+};
+
+// Pixel densities we pick an image for.
+const densities = [1, 1.5, 2, 3];
+
+// Pick images from `sources` for `slot` with `find` (personalize.ts
+// findImage(): the smallest image at least as big as asked). Each
+// density adds its pick to the srcset, so the browser can choose
+// between the few candidates that matter. Null when there are no
+// sources.
+export const selectImages = (
+  find: ImageFinder,
+  sources: FotoscapeImage[],
+  slot: SlotSize
+): ImageSelection | null => {
+  const usable = sources.filter((image) => image.link && image.width > 0 && image.height > 0);
+  if (usable.length === 0) {
+    return null;
+  }
+  const picks: FotoscapeImage[] = [];
+  for (const density of densities) {
+    const image = find(usable, slot.width * density, slot.height * density);
+    if (image && !picks.some((pick) => pick.width === image.width)) {
+      picks.push(image);
+    }
+  }
+  const smallest = usable.reduce((a, b) => (b.width * b.height < a.width * a.height ? b : a));
+  return {
+    src: picks[0].link,
+    srcSet: picks.map((pick) => `${pick.link} ${pick.width}w`).join(", "),
+    sizes: slot.sizes || `${slot.width}px`,
+    placeholder: smallest === picks[0] ? null : smallest.link,
+  };
+};
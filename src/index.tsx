@@ -1,14 +1,31 @@
 import ReactDOM from "react-dom/client";
-import App from "./App";
-import { SoftboxContextProvider } from "./store/softbox-context";
+import Widget from "./Widget";
+import { readWidgetConfig } from "./widget-config";
+import { invalidatePageFeeds } from "./page-feeds";
+import { configureStorage, storageMode } from "./storage";
+import { consentStatus, getConsent, initConsent, setConsent } from "./consent";
+import { registerMessages } from "./messages";
 
-const widgetDivs = document.querySelectorAll('.softbox-widget'); 
+// Wait for the page's consent framework, if any, before storing or
+// tracking anything.
+initConsent();
 
-widgetDivs.forEach(div =>{
+// Small public API for host pages.
+(window as Window & { softbox?: object }).softbox = {
+  invalidateFeedCache: invalidatePageFeeds,
+  configureStorage,
+  storageMode,
+  setConsent,
+  getConsent,
+  consentStatus,
+  registerMessages,
+};
+
+const widgetDivs = document.querySelectorAll<HTMLElement>('.softbox-widget'); 
+
+widgetDivs.forEach((div, index) =>{
+  // Read the host page's config before React replaces the div's children.
+  const config = readWidgetConfig(div, `softbox-widget-${index}`);
   const root = ReactDOM.createRoot(div);
-  root.render(
-    <SoftboxContextProvider>
-    <App />
-  </SoftboxContextProvider>
-  )
+  root.render(<Widget config={config} order={index} />)
 })
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { KenBurns } from "./definition";
+
+// Upper bound on the zoom derived from a kb box, so tiny boxes in the
+// feed don't blow a preview up into a blur.
+const maxZoom = 3;
+
+const clamp = (value: number, min: number, max: number) => {
+  return Math.min(max, Math.max(min, value));
+};
+
+// Build a CSS transform that keeps `box` of the image in view, centred
+// as closely as possible on (x, y) without exposing the image edges.
+const frame = (x: number, y: number, box: number) => {
+  const scale = clamp(1 / (box > 0 ? box : 1), 1, maxZoom);
+  const slack = (1 - 1 / scale) / 2;
+  const tx = clamp(0.5 - x, -slack, slack) * 100;
+  const ty = clamp(0.5 - y, -slack, slack) * 100;
+  return `scale(${scale.toFixed(3)}) translate(${tx.toFixed(2)}%, ${ty.toFixed(2)}%)`;
+};
+
+// Start and end transforms for a lookbook's Ken Burns animation.
+export const kenBurnsFrames = (kb: KenBurns) => {
+  return {
+    start: frame(kb.startX, kb.startY, kb.startB),
+    end: frame(kb.endX, kb.endY, kb.endB),
+  };
+};
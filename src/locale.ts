@@ -0,0 +1,45 @@
+// Which language the widget shows. Resolved from, in order: the
+// widget's own config, the host page's <html lang>, the browser's
+// language, and finally English.
+
+export type TextDirection = "ltr" | "rtl";
+
+const defaultLocale = "en";
+
+// Languages written right to left.
+const rtlLanguages = ["ar", "he", "fa", "ur"];
+
+// "pt_br" and "PT-br" both become "pt-BR"; invalid tags become "".
+export const normalizeLocale = (tag: string | null | undefined) => {
+  if (!tag) {
+    return "";
+  }
+  const [language, ...rest] = tag.trim().replace(/_/g, "-").split("-");
+  if (!/^[a-zA-Z]{2,3}$/.test(language)) {
+    return "";
+  }
+  const region = rest.map((part) => (part.length === 2 ? part.toUpperCase() : part));
+  return [language.toLowerCase(), ...region].join("-");
+};
+
+// The primary language of a locale: "pt-BR" gives "pt".
+export const baseLanguage = (locale: string) => locale.split("-")[0];
+
+export const resolveLocale = (configured?: string) => {
+  const candidates = [
+    configured,
+    typeof document !== "undefined" ? document.documentElement.lang : undefined,
+    typeof navigator !== "undefined" ? navigator.language : undefined,
+  ];
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) {
+      return locale;
+    }
+  }
+  return defaultLocale;
+};
+
+export const textDirection = (locale: string): TextDirection => {
+  return rtlLanguages.includes(baseLanguage(locale)) ? "rtl" : "ltr";
+};
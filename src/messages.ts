@@ -0,0 +1,181 @@
+import { baseLanguage } from "./locale";
+
+// Fixed strings the widget shows itself, as opposed to feed text. Every
+// language must have the English keys; a missing translation falls
+// back to English. `{name}` placeholders are filled from the params
+// passed to formatMessage().
+
+const en = {
+  "carousel.previous": "Previous",
+  "carousel.next": "Next",
+  "carousel.slide": "Slide {number}",
+  "cta.readMore": "Read more",
+  "sponsored.by": "Sponsored by {brand}",
+  "error.loadFailed": "Stories couldn't be loaded.",
+  "error.unknownBlock": "Block type not recognized",
+  "ad.label": "Advertisement",
+  "memes.reveal": "Tap to reveal",
+  "memes.next": "Next meme",
+  "article.close": "Close article",
+  "article.source": "Read at the source",
+  "stub.more": "More",
+  "stub.less": "Less",
+  "dailyTop.title": "Top stories today",
+  "dailyTop.broughtBy": "Brought to you by",
+  "interests.title": "Choose your interests",
+  "interests.save": "Save",
+  "interests.cancel": "Cancel",
+};
+
+export type MessageKey = keyof typeof en;
+type Catalog = { [key in MessageKey]?: string };
+
+const catalogs: { [language: string]: Catalog } = {
+  en,
+  es: {
+    "carousel.previous": "Anterior",
+    "carousel.next": "Siguiente",
+    "carousel.slide": "Diapositiva {number}",
+    "cta.readMore": "Leer más",
+    "sponsored.by": "Patrocinado por {brand}",
+    "error.loadFailed": "No se pudieron cargar las historias.",
+    "error.unknownBlock": "Tipo de bloque no reconocido",
+    "ad.label": "Publicidad",
+    "memes.reveal": "Toca para revelar",
+    "memes.next": "Siguiente meme",
+    "article.close": "Cerrar artículo",
+    "article.source": "Leer en la fuente",
+    "stub.more": "Más",
+    "stub.less": "Menos",
+    "dailyTop.title": "Lo más destacado de hoy",
+    "dailyTop.broughtBy": "Presentado por",
+    "interests.title": "Elige tus intereses",
+    "interests.save": "Guardar",
+    "interests.cancel": "Cancelar",
+  },
+  fr: {
+    "carousel.previous": "Précédent",
+    "carousel.next": "Suivant",
+    "carousel.slide": "Diapositive {number}",
+    "cta.readMore": "Lire la suite",
+    "sponsored.by": "Sponsorisé par {brand}",
+    "error.loadFailed": "Impossible de charger les histoires.",
+    "error.unknownBlock": "Type de bloc non reconnu",
+    "ad.label": "Publicité",
+    "memes.reveal": "Touchez pour révéler",
+    "memes.next": "Mème suivant",
+    "article.close": "Fermer l'article",
+    "article.source": "Lire sur le site source",
+    "stub.more": "Plus",
+    "stub.less": "Moins",
+    "dailyTop.title": "À la une aujourd'hui",
+    "dailyTop.broughtBy": "Présenté par",
+    "interests.title": "Choisissez vos centres d’intérêt",
+    "interests.save": "Enregistrer",
+    "interests.cancel": "Annuler",
+  },
+  de: {
+    "carousel.previous": "Zurück",
+    "carousel.next": "Weiter",
+    "carousel.slide": "Folie {number}",
+    "cta.readMore": "Weiterlesen",
+    "sponsored.by": "Gesponsert von {brand}",
+    "error.loadFailed": "Die Geschichten konnten nicht geladen werden.",
+    "error.unknownBlock": "Unbekannter Blocktyp",
+    "ad.label": "Anzeige",
+    "memes.reveal": "Zum Aufdecken tippen",
+    "memes.next": "Nächstes Meme",
+    "article.close": "Artikel schließen",
+    "article.source": "Bei der Quelle lesen",
+    "stub.more": "Mehr",
+    "stub.less": "Weniger",
+    "dailyTop.title": "Top-Storys des Tages",
+    "dailyTop.broughtBy": "Präsentiert von",
+    "interests.title": "Interessen auswählen",
+    "interests.save": "Speichern",
+    "interests.cancel": "Abbrechen",
+  },
+  pt: {
+    "carousel.previous": "Anterior",
+    "carousel.next": "Próximo",
+    "carousel.slide": "Slide {number}",
+    "cta.readMore": "Leia mais",
+    "sponsored.by": "Patrocinado por {brand}",
+    "error.loadFailed": "Não foi possível carregar as histórias.",
+    "error.unknownBlock": "Tipo de bloco não reconhecido",
+    "ad.label": "Publicidade",
+    "memes.reveal": "Toque para revelar",
+    "memes.next": "Próximo meme",
+    "article.close": "Fechar artigo",
+    "article.source": "Ler na fonte",
+    "stub.more": "Mais",
+    "stub.less": "Menos",
+    "dailyTop.title": "Destaques de hoje",
+    "dailyTop.broughtBy": "Oferecido por",
+    "interests.title": "Escolha seus interesses",
+    "interests.save": "Salvar",
+    "interests.cancel": "Cancelar",
+  },
+  ar: {
+    "carousel.previous": "السابق",
+    "carousel.next": "التالي",
+    "carousel.slide": "الشريحة {number}",
+    "cta.readMore": "اقرأ المزيد",
+    "sponsored.by": "برعاية {brand}",
+    "error.loadFailed": "تعذر تحميل القصص.",
+    "error.unknownBlock": "نوع الكتلة غير معروف",
+    "ad.label": "إعلان",
+    "memes.reveal": "انقر للكشف",
+    "memes.next": "الميم التالي",
+    "article.close": "إغلاق المقال",
+    "article.source": "اقرأ في المصدر",
+    "stub.more": "المزيد",
+    "stub.less": "أقل",
+    "dailyTop.title": "أبرز قصص اليوم",
+    "dailyTop.broughtBy": "مقدم من",
+    "interests.title": "اختر اهتماماتك",
+    "interests.save": "حفظ",
+    "interests.cancel": "إلغاء",
+  },
+  he: {
+    "carousel.previous": "הקודם",
+    "carousel.next": "הבא",
+    "carousel.slide": "שקופית {number}",
+    "cta.readMore": "קראו עוד",
+    "sponsored.by": "בחסות {brand}",
+    "error.loadFailed": "לא ניתן היה לטעון את הכתבות.",
+    "error.unknownBlock": "סוג בלוק לא מוכר",
+    "ad.label": "פרסומת",
+    "memes.reveal": "הקישו לחשיפה",
+    "memes.next": "הממ הבא",
+    "article.close": "סגירת הכתבה",
+    "article.source": "לקריאה במקור",
+    "stub.more": "עוד",
+    "stub.less": "פחות",
+    "dailyTop.title": "הכתבות המובילות היום",
+    "dailyTop.broughtBy": "מוגש בחסות",
+    "interests.title": "בחירת תחומי עניין",
+    "interests.save": "שמירה",
+    "interests.cancel": "ביטול",
+  },
+};
+
+// Add or override translations, e.g. from the host page for a language
+// we don't ship.
+export const registerMessages = (locale: string, messages: Catalog) => {
+  catalogs[locale] = { ...catalogs[locale], ...messages };
+};
+
+// The message for `key` in `locale`, trying the exact locale, then its
+// base language, then English.
+export const formatMessage = (
+  locale: string,
+  key: MessageKey,
+  params: { [name: string]: string | number } = {}
+) => {
+  const template =
+    catalogs[locale]?.[key] ?? catalogs[baseLanguage(locale)]?.[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
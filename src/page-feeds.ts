@@ -0,0 +1,62 @@
+import { ContentSource } from "./content-source";
+import { FeedPayload, describeDropped, validateFeed } from "./feed";
+import { CachedFeed, invalidateFeedCache, readFeedCache, writeFeedCache } from "./feed-cache";
+
+// Feeds shared by every widget on the page. A feed fetched during this
+// page view is kept in memory and handed to any widget asking for the
+// same ContentSource key, and concurrent requests share one fetch, so
+// a sched is fetched (and validated) at most once per page however
+// many widgets show it.
+
+const loaded = new Map<string, FeedPayload>();
+const inFlight = new Map<string, Promise<FeedPayload>>();
+
+// Return what is already known about `category`: the copy fetched this
+// page view (always fresh), else the persistent feed cache entry.
+export const readPageFeed = (source: ContentSource, category: string): CachedFeed | null => {
+  const key = source.key(category);
+  const payload = loaded.get(key);
+  if (payload) {
+    return { payload, fresh: true };
+  }
+  return readFeedCache(key);
+};
+
+// Fetch and validate `category`, joining a fetch already in flight for
+// the same key. Rejects if the request fails or the feed is unusable.
+export const fetchPageFeed = (source: ContentSource, category: string): Promise<FeedPayload> => {
+  const key = source.key(category);
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending;
+  }
+  const request = (async () => {
+    const validation = validateFeed(await source.fetchSched(category));
+    for (const entry of validation.dropped) {
+      console.warn(`${category}: ${describeDropped(entry)}`);
+    }
+    if (!validation.payload) {
+      throw new Error(`Bad feed for ${category}: ${validation.error}`);
+    }
+    writeFeedCache(key, validation.payload);
+    loaded.set(key, validation.payload);
+    return validation.payload;
+  })();
+  inFlight.set(key, request);
+  const done = () => {
+    inFlight.delete(key);
+  };
+  request.then(done, done);
+  return request;
+};
+
+// Forget cached feeds, in memory and in storage. Takes the same
+// arguments as invalidateFeedCache().
+export const invalidatePageFeeds = (match?: string | ((key: string) => boolean)) => {
+  for (const key of Array.from(loaded.keys())) {
+    if (match === undefined || (typeof match === "string" ? key === match : match(key))) {
+      loaded.delete(key);
+    }
+  }
+  invalidateFeedCache(match);
+};
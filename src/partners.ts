@@ -0,0 +1,21 @@
+// Where the scripts behind third-party blocks come from, and how long
+// a block waits for them before it gives up and collapses. Pages can
+// point the URLs at the local stubs in public/ to test offline.
+export type PartnerConfig = {
+  outbrainScriptUrl?: string;
+  gptScriptUrl?: string; // Google Publisher Tag, or anything with its API.
+  timeoutMs?: number; // Per block, for the script and the partner's content.
+};
+
+export const defaultPartnerConfig: Required<PartnerConfig> = {
+  outbrainScriptUrl: "https://widgets.outbrain.com/outbrain.js",
+  gptScriptUrl: "https://securepubads.g.doubleclick.net/tag/js/gpt.js",
+  timeoutMs: 8000,
+};
+
+// The URL partners should recommend against: the canonical URL when
+// the page declares one.
+export const partnerPageUrl = () => {
+  const canonical = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  return canonical && canonical.href ? canonical.href : window.location.href;
+};
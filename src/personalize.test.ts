@@ -0,0 +1,156 @@
+import NewPersonalize, { ScoredItem, StoredHistory, StoredWeights } from "./personalize";
+import { configureStorage, getStorage } from "./storage";
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+const weightsKey = "personalize-user-weights";
+
+const newInstance = () => {
+  const instance = NewPersonalize();
+  instance.defaultInterests = {
+    sports: { name: "Sports", weight: 0.5 },
+    music: { name: "Music", weight: 0.2 },
+  };
+  instance.decayHalfLife = 10 * day;
+  return instance;
+};
+
+let now = 0;
+
+beforeEach(() => {
+  configureStorage({ preferred: ["memory"] });
+  now = 100 * day;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("decayWeights", () => {
+  it("moves weights halfway to their default every half-life", () => {
+    const stored: StoredWeights = {
+      version: 2,
+      weights: { sports: { w: 0.9, t: now - 10 * day }, music: { w: 0.2, t: now - 30 * day } },
+    };
+    const weights = newInstance().decayWeights(stored, now);
+    expect(weights.sports).toBeCloseTo(0.7);
+    expect(weights.music).toBeCloseTo(0.2);
+  });
+
+  it("decays interests the feed doesn't know toward 0", () => {
+    const stored: StoredWeights = { version: 2, weights: { cooking: { w: 0.8, t: now - 20 * day } } };
+    expect(newInstance().decayWeights(stored, now).cooking).toBeCloseTo(0.2);
+  });
+
+  it("leaves weights alone when decay is off", () => {
+    const instance = newInstance();
+    instance.decayHalfLife = 0;
+    const stored: StoredWeights = { version: 2, weights: { sports: { w: 0.9, t: 0 } } };
+    expect(instance.decayWeights(stored, now).sports).toBe(0.9);
+  });
+});
+
+describe("stored weights", () => {
+  it("migrates the flat version 1 format, stamping weights as just written", () => {
+    getStorage().setJSON(weightsKey, { sports: 0.8, music: 0.3, junk: "x" });
+    const migrated = newInstance().readStoredWeights();
+    const expected = { version: 2, weights: { sports: { w: 0.8, t: now }, music: { w: 0.3, t: now } } };
+    expect(migrated).toEqual(expected);
+    expect(getStorage().getJSON(weightsKey)).toEqual(expected);
+  });
+
+  it("ignores unknown versions", () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    getStorage().setJSON(weightsKey, { version: 99, weights: {} });
+    expect(newInstance().readStoredWeights()).toBeNull();
+  });
+
+  it("keeps the stamp of weights written back unchanged", () => {
+    const instance = newInstance();
+    getStorage().setJSON(weightsKey, {
+      version: 2,
+      weights: { sports: { w: 0.9, t: now - 10 * day }, cooking: { w: 0.8, t: now - 10 * day } },
+    });
+    const weights = instance.getWeights();
+    weights.sports = 0.95;
+    instance.setWeights(weights);
+    expect(instance.readStoredWeights()!.weights).toEqual({
+      sports: { w: 0.95, t: now },
+      cooking: { w: 0.8, t: now - 10 * day },
+    });
+  });
+});
+
+describe("applyHistory", () => {
+  const lookbook = (uid: string, promote = false): ScoredItem => ({
+    uid,
+    title: uid,
+    summary: "",
+    link: "",
+    interests: ["sports"],
+    images: [],
+    previews: [],
+    promote,
+    boost: 0,
+    score: 1,
+  });
+
+  const at = 100 * day;
+
+  // Clicked 2 days ago, seen 1 hour ago, seen 5 hours ago, clicked 8
+  // days ago.
+  const history: StoredHistory = {
+    version: 1,
+    entries: {
+      clicked: { c: at - 2 * day },
+      seen: { s: at - hour },
+      seenLongAgo: { s: at - 5 * hour },
+      clickedLongAgo: { c: at - 8 * day },
+    },
+  };
+  const uids = ["clicked", "seen", "seenLongAgo", "clickedLongAgo", "fresh"];
+
+  it("pushes down lookbooks within their cooldown", () => {
+    const instance = newInstance();
+    const result = instance.applyHistory(uids.map((uid) => lookbook(uid)), history, at);
+    expect(result.map((lkbk) => [lkbk.uid, lkbk.score])).toEqual([
+      ["clicked", 0.05],
+      ["seen", 0.05],
+      ["seenLongAgo", 1],
+      ["clickedLongAgo", 1],
+      ["fresh", 1],
+    ]);
+    expect(instance.lastHistory.clicked).toEqual({ clicked: at - 2 * day, seen: null, action: "pushed_down" });
+  });
+
+  it("leaves them out in exclude mode", () => {
+    const instance = newInstance();
+    instance.historyMode = "exclude";
+    const result = instance.applyHistory(uids.map((uid) => lookbook(uid)), history, at);
+    expect(result.map((lkbk) => lkbk.uid)).toEqual(["seenLongAgo", "clickedLongAgo", "fresh"]);
+  });
+
+  it("uses the configured cooldowns", () => {
+    const instance = newInstance();
+    instance.clickCooldown = day;
+    instance.impressionCooldown = 6 * hour;
+    const result = instance.applyHistory(uids.map((uid) => lookbook(uid)), history, at);
+    expect(result.filter((lkbk) => lkbk.score < 1).map((lkbk) => lkbk.uid)).toEqual(["seen", "seenLongAgo"]);
+  });
+
+  it("holds back promoted lookbooks only within promoteCooldown", () => {
+    const instance = newInstance();
+    const promoted = () => [lookbook("clicked", true), lookbook("seen", true)];
+    expect(instance.applyHistory(promoted(), history, at).map((lkbk) => lkbk.score)).toEqual([1, 1]);
+    instance.promoteCooldown = 3 * day;
+    expect(instance.applyHistory(promoted(), history, at).map((lkbk) => lkbk.uid)).toEqual(["seen"]);
+  });
+
+  it("does nothing when the history is off", () => {
+    const instance = newInstance();
+    instance.historyMode = "off";
+    expect(instance.applyHistory(uids.map((uid) => lookbook(uid)), history, at)).toHaveLength(5);
+    expect(instance.lastHistory).toEqual({});
+  });
+});
@@ -1,6 +1,5 @@
 /* jshint esversion: 6 */
 /* jshint node: true */
-/* global localStorage */
 
 // This project is tasked with personalizing the lookbook content
 // shown to the users on the FSD and on the web portal. Each day there
@@ -125,6 +124,9 @@
 // SCORING: Take the list of available lookbooks and score each one
 // based on the user's preferences.
 //
+// HISTORY: Push down or exclude lookbooks the user recently clicked or
+// saw.
+//
 // SELECTION: Prioritize and select the lookbooks to show the user
 // based on their score (and some randomness).
 //
@@ -135,13 +137,125 @@
 //
 // DEBUGGING: Output debugging information for testing.
 //
-// STORAGE: Read and write local storage with personalized data.
+// STORAGE: Read and write local storage with personalized data. All
+// access goes through storage.ts, which falls back to other backends
+// when localStorage is blocked. Nothing is read or written without the
+// user's consent to personalization (see consent.ts).
+
+import { FeedImage, FeedInterests, FeedItem, Translations, describeDropped, validateFeedItem } from './feed'
+import { hasConsent, registerPersonalData } from './consent'
+import { Rng } from './rng'
+import { getStorage } from './storage'
 
 // localStorage key name.
 const localStorageKeyName = 'personalize-user-weights'
+registerPersonalData(localStorageKeyName)
+
+// Version of the stored weights format. Version 1 (no version field)
+// was a flat { uid: weight } map; version 2 stores each weight with the
+// time it was last written so it can decay.
+const weightsVersion = 2
+
+// localStorage key name for the clicked/seen history.
+const historyKeyName = 'personalize-history'
+registerPersonalData(historyKeyName)
+
+// Version of the stored history format.
+const historyVersion = 1
+
+const hour = 60 * 60 * 1000
+
+// Interest uid to weight map kept for each user.
+export type UserWeights = { [interest: string]: number }
+
+// What is kept in localStorage.
+export type StoredWeights = {
+  version: number
+  weights: { [interest: string]: { w: number, t: number } }
+}
+
+// When each lookbook was last clicked (c) and seen (s), in ms since
+// the epoch. Bounded to historyMaxEntries lookbooks.
+export type StoredHistory = {
+  version: number
+  entries: { [uid: string]: { c?: number, s?: number } }
+}
+
+// What selection does with recently consumed lookbooks: score them
+// down, leave them out, or ignore the history.
+export type HistoryMode = 'push_down' | 'exclude' | 'off'
+
+export type HistoryAction = 'pushed_down' | 'excluded'
+
+// A feed item once it has been scored for the current user.
+export type ScoredItem = FeedItem & { score: number }
+
+// Operational parameters accepted by choose(). See the comment on
+// choose() for the meaning of each one.
+export type PersonalizeSettings = {
+  count?: number
+  maxConsidered?: number
+  interest?: {
+    level0_multiplier?: number
+    initial?: number
+    hit?: number
+    miss?: number
+    filter_const?: number
+    deprioritization?: number
+    no_interests?: number
+    scoreBoost?: number
+  }
+  history?: HistorySettings
+}
+
+// See the history fields of NewPersonalize(). Cooldowns are in hours.
+export type HistorySettings = {
+  mode?: HistoryMode
+  click_cooldown?: number
+  impression_cooldown?: number
+  promote_cooldown?: number
+  penalty?: number
+  max_entries?: number
+}
+
+export type SelectedListEvent = {
+  event: 'selectedList'
+  average_score: number
+  average_chosen: number
+  seed: number | null
+  stream: string | null
+  lookbooks: { [uid: string]: { interests: string[], score: number } }
+  selected: string[]
+  user_weights: UserWeights
+  history: { [uid: string]: { clicked: number | null, seen: number | null, action: HistoryAction } }
+}
+
+export type ChosenLookbookEvent = {
+  event: 'chosenLookbook'
+  lookbook: string
+  interests: string[]
+  user_weights: UserWeights
+}
+
+export type ImpressionEvent = {
+  event: 'impression'
+  lookbook: string
+  interests: string[]
+  negative_signal: boolean
+}
+
+export type InterestsChosenEvent = {
+  event: 'interestsChosen'
+  interests: string[]
+  user_weights: UserWeights
+}
+
+export type PersonalizeEvent = SelectedListEvent | ChosenLookbookEvent | ImpressionEvent | InterestsChosenEvent
+
+export type Personalize = ReturnType<typeof NewPersonalize>
 
 let personalizeDebug = false // True if we are debugging.
-const personalizeInstances = [] as any // List of instances used.
+const personalizeInstances = [] as Personalize[] // List of instances used.
 
 // This object personalizes Lookbook content by choosing Lookbooks the
 // user is more likely to view.
@@ -158,15 +272,28 @@ export function NewPersonalize() {
     noInterestsValue: 0.01, // Value to use when interests missing.
     scoreBoostExponent: 1.9, // Exponent to boost scores by.
     interestValueFloor: 0.1, // Minimum value an interest can get to.
+    pickedWeight: 0.5, // Weight from which an interest counts as followed.
+    decayHalfLife: 30 * 24 * 60 * 60 * 1000, // Ms for a weight to drift halfway back to its default.
+    impressionPenalty: 0.02, // Weight lost per unclicked impression.
+    historyMode: 'push_down' as HistoryMode, // Treatment of recently consumed lookbooks.
+    clickCooldown: 7 * 24 * hour, // Ms a clicked lookbook is held back.
+    impressionCooldown: 4 * hour, // Ms a seen lookbook is held back.
+    promoteCooldown: 0, // Ms a clicked promoted lookbook is held back.
+    historyPenalty: 0.05, // Score multiplier for pushed down lookbooks.
+    historyMaxEntries: 200, // Most lookbooks kept in the history.
+    lastHistory: {} as SelectedListEvent['history'], // History applied by the last choose().
     lastAverage: 0, // Last average score.
     maxConsidered: 50, // Maximum number of posts to consider.
-    defaultInterests: {} as any, // Default interests to use.
+    defaultInterests: {} as FeedInterests, // Default interests to use.
     debug: false, // True to output debugging.
-    posts: [], // Posts being processed.
-    scored: [], // List of scored lookbooks.
-    lastEvent: null, // Last log event.
-    lastUserWeights: null, // Last user weights.
-    scoreBoost: null,
+    posts: [] as unknown[], // Posts being processed.
+    scored: [] as ScoredItem[], // List of scored lookbooks.
+    lastEvent: null as PersonalizeEvent | null, // Last log event.
+    lastUserWeights: null as UserWeights | null, // Last user weights.
+    scoreBoost: null as number | null,
+    rng: null as Rng | null, // Seeded generator; Math.random when null.
+    eventSink: null as ((event: PersonalizeEvent) => void) | null, // Log destination.
+    locale: 'en', // Language for translated feed text, see locale.ts.
 
     //--------------------------------------------------------------------
     // PUBLIC: These routines are the public interface for Personalize.
@@ -191,6 +318,14 @@ export function NewPersonalize() {
     //       no_interests: 0.01,     // Value to use when interests missing.
     //       scoreBoost: 1.9,        // Exponent to boost scores by.
     //     },
+    //     history: {
+    //       mode: 'push_down',      // Or 'exclude', or 'off'.
+    //       click_cooldown: 168,    // Hours a clicked lookbook is held back.
+    //       impression_cooldown: 4, // Hours a seen lookbook is held back.
+    //       promote_cooldown: 0,    // Hours a clicked promoted one is held back.
+    //       penalty: 0.05,          // Score multiplier when pushed down.
+    //       max_entries: 200,       // Most lookbooks remembered.
+    //     },
     //   },
     //
     //   posts: [                    // List of available posts.
@@ -206,7 +341,7 @@ export function NewPersonalize() {
     //     ... more Lookbooks
     //   ],
     // }
-    choose: function (posts: any, settings: any, defaultInterests: any) {
+    choose: function (posts: unknown[], settings: PersonalizeSettings, defaultInterests: FeedInterests) {
       this.posts = posts
 
       // Setup defaults from props or initial values.
@@ -223,18 +358,48 @@ export function NewPersonalize() {
       this.scoreBoost = interest.scoreBoost || this.scoreBoost
       this.defaultInterests = defaultInterests
 
+      // Cooldowns can legitimately be 0, so only replace them when set.
+      const history = settings.history || {}
+      this.historyMode = history.mode || this.historyMode
+      this.clickCooldown = history.click_cooldown !== undefined ? history.click_cooldown * hour : this.clickCooldown
+      this.impressionCooldown = history.impression_cooldown !== undefined ? history.impression_cooldown * hour : this.impressionCooldown
+      this.promoteCooldown = history.promote_cooldown !== undefined ? history.promote_cooldown * hour : this.promoteCooldown
+      this.historyPenalty = history.penalty || this.historyPenalty
+      this.historyMaxEntries = history.max_entries || this.historyMaxEntries
+
       // Now run the end-to-end selection algorithm.
       return this.performChoose(posts)
     },
 
-    // Choose text based on type of translation data and browser
+    // Use a seeded random number generator (see rng.ts) for the
+    // selections that follow, so they can be replayed from the seed
+    // logged with each selectedList event. Pass null to go back to
+    // Math.random.
+    setRandom: function (rng: Rng | null) {
+      this.rng = rng
+    },
+
+    // Use `locale` for translated feed text: chooseText() without a
+    // language code and the debugging output.
+    setLocale: function (locale: string) {
+      this.locale = locale
+    },
+
+    // Send log events to `sink` (the widget's analytics bus) instead of
+    // pushing them onto window.dataLayer directly.
+    setEventSink: function (sink: ((event: PersonalizeEvent) => void) | null) {
+      this.eventSink = sink
+    },
+
+    // Choose text based on type of translation data and the widget's
     // language.  If 'translations' is a string then we should return it
-    // (we don't have any other translations). If we have no
-    // 'languageCode' then return the English translation.
+    // (we don't have any other translations). If there is no
+    // translation for 'languageCode' then fall back as described for
+    // chooseLanguage().
     //
     // The second parameter is optional and if missing it defaults to
-    // the browser's default language.
-    chooseText: function (translations: any, languageCode = navigator.language) {
+    // the locale from setLocale().
+    chooseText: function (translations: Translations | null | undefined, languageCode?: string) {
       // If the translations are a plain string assume this string is
       // the necessary translation.
       if (typeof translations === 'string') {
@@ -243,7 +408,7 @@ export function NewPersonalize() {
 
       // If translations is not an object then we have been passed bad
       // data and return error message.
-      if (typeof translations !== 'object') {
+      if (translations === null || typeof translations !== 'object') {
         return 'Bad translation information'
       }
 
@@ -258,24 +423,102 @@ export function NewPersonalize() {
         return ''
       }
 
-      const translation = translations[languageCode] ?? translations[translationKeys[0]]
-      return translation
+      return translations[this.chooseLanguage(translations, languageCode || this.locale)!]
+    },
+
+    // Return the language chooseText() picks from `translations`: the
+    // exact code ('pt-BR'), else its base language ('pt'), else the
+    // first one available. Null for plain strings and bad or empty
+    // data.
+    chooseLanguage: function (translations: Translations | null | undefined, languageCode?: string): string | null {
+      const code = languageCode || this.locale
+      if (translations === null || typeof translations !== 'object') {
+        return null
+      }
+      const translationKeys = Object.keys(translations)
+      if (translationKeys.length === 0) {
+        return null
+      }
+      if (translations[code] !== undefined) {
+        return code
+      }
+      const base = code.split('-')[0]
+      if (translations[base] !== undefined) {
+        return base
+      }
+      return translationKeys[0]
     },
 
     // Process the user's click to show the lookbook. We update the
     // users interest weights, save it in the local storage and then
-    // call the click routine.
-    click: function (uid: any, interests: any) {   
+    // call the click routine. The click is also added to the history.
+    click: function (uid: string, interests: string[]) {
       const updatedWeights = this.updateWeights(interests, this.getWeights())
       this.logChoice(uid, interests, updatedWeights)
       this.setWeights(updatedWeights)
+      this.recordHistory(uid, 'click')
+    },
+
+    // Record that the user saw a lookbook (see hooks/use-impression.ts).
+    // When negativeSignal is set the lookbook's interests lose a little
+    // weight, so interests the user keeps scrolling past slowly fade.
+    // A later click on the same lookbook more than makes up for it.
+    impression: function (uid: string, interests: string[], negativeSignal: boolean) {
+      if (negativeSignal) {
+        this.setWeights(this.penalizeWeights(interests, this.getWeights()))
+      }
+      this.recordHistory(uid, 'impression')
+      this.log({
+        event: 'impression',
+        lookbook: uid,
+        interests: interests,
+        negative_signal: negativeSignal
+      })
+    },
+
+    // Return the feed's interests the user currently follows, i.e. those
+    // weighted at least pickedWeight, for an interest picker to start
+    // from.
+    pickedInterests: function (): string[] {
+      const weights = this.getWeights()
+      const picked = []
+      for (const k in this.defaultInterests) {
+        if ((weights[k] || 0) >= this.pickedWeight) {
+          picked.push(k)
+        }
+      }
+      return picked
+    },
+
+    // Apply the user's own choice of interests from an interest picker.
+    // Unlike a click this isn't filtered: chosen interests go straight
+    // to full weight and the rest of the feed's interests to the floor,
+    // after which clicks and decay carry on adjusting them as usual.
+    chooseInterests: function (interests: string[]) {
+      const updatedWeights = this.getWeights()
+      for (const k in this.defaultInterests) {
+        updatedWeights[k] = interests.indexOf(k) === -1 ? this.interestValueFloor : 1.0
+      }
+      for (const i of interests) {
+        updatedWeights[i] = 1.0
+      }
+      this.setWeights(updatedWeights)
+      const uw: UserWeights = {}
+      for (const k in updatedWeights) {
+        uw[k] = this.limit(updatedWeights[k])
+      }
+      this.log({
+        event: 'interestsChosen',
+        interests: interests,
+        user_weights: uw
+      })
     },
 
     // Find the smallest image size that is bigger and w and h and
     // return it. If the requested size is larger than any of our
     // images, then return the first one (which should be largest).
-    findImage: function (images: any, w: any, h: any) {
-      let image = null
+    findImage: function (images: FeedImage[], w: number, h: number): FeedImage | undefined {
+      let image: FeedImage | undefined
       let smallest2 = Number.MAX_VALUE
       const len = images.length
       for (let i = 0; i < len; i++) {
@@ -298,27 +541,28 @@ export function NewPersonalize() {
     // CHOOSE: Perform the core end-to-end algorithm.
     //--------------------------------------------------------------------
 
-    // Get the user weights, score the lookbooks and then select the
-    // lookbooks to show the user. Finally, log the selection choices
-    // before returning. We clip the total number of posts we will
-    // process to maxConsidered. If we clip we take the first n posts.
-    performChoose: function (posts: any) {
+    // Get the user weights, score the lookbooks, apply the history and
+    // then select the lookbooks to show the user. Finally, log the
+    // selection choices before returning. We clip the total number of
+    // posts we will process to maxConsidered. If we clip we take the
+    // first n posts.
+    performChoose: function (posts: unknown[]) {
       const userWeights = this.getWeights()
       const cleaned = this.cleanup(posts)
       const data = cleaned.slice(0, this.maxConsidered)
       this.scored = this.score(data, userWeights)
-      const list = this.getList(this.scored, userWeights)
+      const eligible = this.applyHistory(this.scored, this.getHistory(), Date.now())
+      const list = this.getList(eligible, userWeights, this.rng ? this.rng.next : null)
       this.logSelected(list, userWeights)
       return list
     },
 
     // Remove damaged lookbooks.
     //
-    // Right now it makes sure we have an array of lookbooks, that all
-    // lookbooks are objects, that all lookbook objects have an uid,
-    // and they all have an array of interests. These are quick
-    // checks. Many more could be added.
-    cleanup: function (lookbooks: any) {
+    // Each lookbook is run through validateFeedItem() from feed.ts,
+    // which checks the uid, interests, title, link, previews and the
+    // optional fields. Dropped lookbooks are logged with the reason.
+    cleanup: function (lookbooks: unknown): FeedItem[] {
       // Make sure we have an array.
       if (!Array.isArray(lookbooks)) {
         console.log('Lookbook array is corrupted.')
@@ -327,20 +571,16 @@ export function NewPersonalize() {
 
       // Loop over lookbooks and run tests.
       const result = []
+      let index = 0
       for (const lkbk of lookbooks) {
-        if (lkbk === null || typeof lkbk !== 'object') {
-          console.log('Bad lookbook object in array.')
-          continue
-        }
-        if (typeof lkbk.uid !== 'string') {
-          console.log('Bad lookbook uid.')
-          continue
-        }
-        if (!Array.isArray(lkbk.interests) || lkbk.interests.length === 0) {
-          console.log('Lookbook ' + lkbk.uid + ' missing interests.')
-          continue
+        const checked = validateFeedItem(lkbk)
+        if ('item' in checked) {
+          result.push(checked.item)
+        } else {
+          const uid = lkbk && typeof lkbk.uid === 'string' ? lkbk.uid : undefined
+          console.log(describeDropped({ kind: 'item', index, uid, reason: checked.reason }))
         }
-        result.push(lkbk)
+        index++
       }
       return result
     },
@@ -355,8 +595,8 @@ export function NewPersonalize() {
     // gets a multiplication boost over the secondary interests by
     // design. All scores are boosted by an external value passed into
     // the item. Finally the score is raised to an exponent.
-    score: function (lookbooks: any, userWeights: any) {
-      for (const lkbk of lookbooks) {
+    score: function (lookbooks: FeedItem[], userWeights: UserWeights): ScoredItem[] {
+      for (const lkbk of lookbooks as ScoredItem[]) {
         let finalScore = 0.0
         let i = 0
         if (!lkbk.interests) {
@@ -375,34 +615,74 @@ export function NewPersonalize() {
         finalScore = finalScore * (1.0 + boost)
         lkbk.score = Math.pow(finalScore, this.scoreBoostExponent)
       }
-      return lookbooks
+      return lookbooks as ScoredItem[]
     },
 
     // Return the interest's score preferably using the user weights.
     // Start with user weight map, if that fails use the value from the
     // default map, finally just use a very small value.
-    priority: function (interest: string, userWeights: any) {
-      let v = userWeights[interest]
+    priority: function (interest: string, userWeights: UserWeights) {
+      const v = userWeights[interest]
       if (v) {
         return v
       }
-      v = this.defaultInterests[interest]
-      if (v) {
-        return v.weight
+      const d = this.defaultInterests[interest]
+      if (d) {
+        return d.weight
       }
       return this.initialValue
     },
 
+    //--------------------------------------------------------------------
+    // HISTORY: Hold back recently consumed lookbooks.
+    //--------------------------------------------------------------------
+
+    // Return the lookbooks selection may pick from. A lookbook clicked
+    // within clickCooldown, or seen within impressionCooldown, has its
+    // score multiplied by historyPenalty ('push_down') or is left out
+    // ('exclude'). Promoted lookbooks are always shown, unless clicked
+    // within promoteCooldown in which case they are left out. What was
+    // done to each lookbook is kept for the selectedList log.
+    applyHistory: function (lookbooks: ScoredItem[], history: StoredHistory, now: number) {
+      this.lastHistory = {}
+      if (this.historyMode === 'off') {
+        return lookbooks
+      }
+      const result = []
+      for (const lkbk of lookbooks) {
+        const entry = history.entries[lkbk.uid] || {}
+        const clicked = entry.c !== undefined ? entry.c : null
+        const seen = entry.s !== undefined ? entry.s : null
+        let consumed: boolean
+        if (lkbk.promote) {
+          consumed = clicked !== null && now - clicked < this.promoteCooldown
+        } else {
+          consumed = (clicked !== null && now - clicked < this.clickCooldown) ||
+            (seen !== null && now - seen < this.impressionCooldown)
+        }
+        if (!consumed) {
+          result.push(lkbk)
+        } else if (this.historyMode === 'push_down' && !lkbk.promote) {
+          lkbk.score = lkbk.score * this.historyPenalty
+          this.lastHistory[lkbk.uid] = { clicked, seen, action: 'pushed_down' }
+          result.push(lkbk)
+        } else {
+          this.lastHistory[lkbk.uid] = { clicked, seen, action: 'excluded' }
+        }
+      }
+      return result
+    },
+
     //--------------------------------------------------------------------
     // SELECTION: Selection routines.
     //--------------------------------------------------------------------
 
     // Take the available lookbooks, score them based on userWeights and
     // then return the best lookbooks to show to the user. This routine
-    // takes an optional random number generator that is supplied by
-    // testing to force specific choices during tests.
-    getList: function (lookbooks: any, userWeights: any, rand = null as any) {
-      rand = rand || Math.random
+    // takes an optional random number generator, the seeded one from
+    // setRandom() or one supplied by tests to force specific choices.
+    getList: function (lookbooks: ScoredItem[], userWeights: UserWeights, rand: (() => number) | null = null) {
+      const random = rand || Math.random
 
       // Final list result.
       const result = []
@@ -428,7 +708,7 @@ export function NewPersonalize() {
       // Loop for the number of lookbooks we need, pick a good choice
       // and then update data based on previous selection.
       for (let i = 0; i < num; i++) {
-        const selected = this.getSelection(lookbooks, rand)
+        const selected = this.getSelection(lookbooks, random)
         const update = this.updateChoices(lookbooks, userWeights, selected)
         result.push(update.lookbook)
         lookbooks = update.lookbooks
@@ -443,7 +723,7 @@ export function NewPersonalize() {
     // (bigger scores have a bigger slice). We then randomly select a
     // point on the perimeter of the pie and the lookbook at that point
     // is chosen.
-    getSelection: function (lookbooks: any, rand: any) {
+    getSelection: function (lookbooks: ScoredItem[], rand: () => number) {
       let index = 0
       let runningSum = 0.0
       const randomChoice = rand()
@@ -460,7 +740,7 @@ export function NewPersonalize() {
     },
 
     // Get the sum of all the scores in the current list of lookbooks.
-    scoreSum: function (lookbooks: any) {
+    scoreSum: function (lookbooks: ScoredItem[]) {
       let scoreSum = 0.0
       for (const lkbk of lookbooks) {
         scoreSum += lkbk.score
@@ -472,7 +752,7 @@ export function NewPersonalize() {
     // based on the index. Then create a new list of lookbooks without
     // the selected lookbook. Finally, update the weights to
     // deprioritize any of selected interests.
-    updateChoices: function (lookbooks:any, userWeights: any, index: any) {
+    updateChoices: function (lookbooks: ScoredItem[], userWeights: UserWeights, index: number) {
       // Fetch the lookbook.
       const lkbk = lookbooks[index]
 
@@ -505,7 +785,7 @@ export function NewPersonalize() {
     // creates a running average approximation by keeping most of the
     // previous value and increase or decrease it based on the user
     // selection.
-    updateWeights: function (interests: any, userWeights: any) {
+    updateWeights: function (interests: string[], userWeights: UserWeights) {
       // Loop over existing weights and update them.
       for (const k in userWeights) {
         const v = interests.indexOf(k) === -1 ? this.missValue : this.hitValue
@@ -525,16 +805,29 @@ export function NewPersonalize() {
       return userWeights
     },
 
+    // Weak negative update for an impression without a click. Only
+    // interests the user already has a weight for are touched, and
+    // never below the usual floor.
+    penalizeWeights: function (interests: string[], userWeights: UserWeights) {
+      for (const i of interests) {
+        if (userWeights[i]) {
+          const score = userWeights[i] * (1.0 - this.impressionPenalty)
+          userWeights[i] = Math.max(this.interestValueFloor, score)
+        }
+      }
+      return userWeights
+    },
+
     //--------------------------------------------------------------------
     // LOGGING: Log selection process and user choice.
     //--------------------------------------------------------------------
 
     // Log selection.
-    logSelected: function (selectedList: any, userWeights: any) {
+    logSelected: function (selectedList: ScoredItem[], userWeights: UserWeights) {
       let allSum = 0.0
       let selectedSum = 0.0
-      const lookbooks = {} as any
-      let lkbk = null as any
+      const lookbooks: SelectedListEvent['lookbooks'] = {}
+      let lkbk: ScoredItem
       for (lkbk of this.scored) {
         allSum += lkbk.score
         lookbooks[lkbk.uid] = {
@@ -547,7 +840,7 @@ export function NewPersonalize() {
         selectedSum += lkbk.score
         selected.push(lkbk.uid)
       }
-      const uw = {} as any
+      const uw: UserWeights = {}
       for (const k in userWeights) {
         uw[k] = this.limit(userWeights[k])
       }
@@ -555,15 +848,18 @@ export function NewPersonalize() {
         event: 'selectedList',
         average_score: this.limit(allSum / this.scored.length),
         average_chosen: this.limit(selectedSum / selectedList.length),
+        seed: this.rng ? this.rng.seed : null,
+        stream: this.rng ? this.rng.stream : null,
         lookbooks: lookbooks,
         selected: selected,
-        user_weights: uw
+        user_weights: uw,
+        history: this.lastHistory
       })
     },
 
     // Log user choice.
-    logChoice: function (uid: any, interests: any, userWeights: any) {
-      const uw = {} as any
+    logChoice: function (uid: string, interests: string[], userWeights: UserWeights) {
+      const uw: UserWeights = {}
       for (const k in userWeights) {
         uw[k] = this.limit(userWeights[k])
       }
@@ -576,14 +872,17 @@ export function NewPersonalize() {
     },
 
     // Limit value to 3 decimal digits.
-    limit: function (x: any) {
+    limit: function (x: number) {
       return Math.round(x * 1000) / 1000
     },
 
-    // Send log event if dataLayer exists. Output debugging if set.
-    log: function (event: any) {
-      const w = window as any
-      if (w && w.dataLayer) {
+    // Send log event to the event sink, or to dataLayer if there is no
+    // sink and dataLayer exists. Output debugging if set.
+    log: function (event: PersonalizeEvent) {
+      const w = window as Window & { dataLayer?: unknown[] }
+      if (this.eventSink) {
+        this.eventSink(event)
+      } else if (w && w.dataLayer && hasConsent('measurement')) {
         w.dataLayer.push(event)
       }
       this.outputDebugging(event)
@@ -600,37 +899,54 @@ export function NewPersonalize() {
     },
 
     // Output debugging information.
-    outputDebugging: function (e: any) {
+    outputDebugging: function (e: PersonalizeEvent | null) {
       if (this.debug && e) {
         if (e.event === 'selectedList') {
           this.outputSelectedList(e)
         } else if (e.event === 'chosenLookbook') {
           this.outputChosenLookbook(e)
+        } else if (e.event === 'impression') {
+          console.log('%c Impression: ' + e.lookbook + ', negative_signal: ' + e.negative_signal, 'color: #40F040')
+        } else if (e.event === 'interestsChosen') {
+          console.log('%c Interests Chosen: ' + e.interests.join(', '), 'color: #40F040')
+          this.outputUserWeights(e)
         } else {
-          console.log('Unknown MyContent event: ' + e.event)
+          console.log('Unknown MyContent event: ' + (e as { event: string }).event)
         }
       }
       this.lastEvent = e
     },
 
     // Output selectedList debugging information.
-    outputSelectedList: function (e: any) {
+    outputSelectedList: function (e: SelectedListEvent) {
       console.log(
         '%c Selected List, available:' +
           this.scored.length +
           ', average_score:' +
           e.average_score +
           ', average_chosen:' +
-          e.average_chosen,
+          e.average_chosen +
+          ', seed:' +
+          e.seed +
+          ', stream:' +
+          e.stream,
         'color: #40F040'
       )
       const ci = this.interestsInfo()
-      const li = this.lookbookInfo(ci) as any
+      const li = this.lookbookInfo(ci)
       let count = 1
       for (const uid of e.selected) {
         li[uid].selected = 'SELECTED-' + count
         count += 1
       }
+      const now = Date.now()
+      for (const uid in e.history) {
+        const h = e.history[uid]
+        const last = h.clicked !== null ? 'clicked ' + this.limit((now - h.clicked) / hour) : 'seen ' + this.limit((now - (h.seen || now)) / hour)
+        if (li[uid]) {
+          li[uid].history = h.action.toUpperCase() + ', ' + last + 'h ago'
+        }
+      }
       const si = []
       for (const k in li) {
         si.push(li[k])
@@ -641,9 +957,9 @@ export function NewPersonalize() {
     },
 
     // Output ohosenLookbook debugging information.
-    outputChosenLookbook: function (e: any) {
+    outputChosenLookbook: function (e: ChosenLookbookEvent) {
       const ci = this.interestsInfo()
-      const li = this.lookbookInfo(ci) as any
+      const li = this.lookbookInfo(ci)
       const lkbk = li[e.lookbook]
       console.log(
         "%c Chosen Lookbook: '" + lkbk.title + "', interests: " + lkbk.interests,
@@ -654,9 +970,9 @@ export function NewPersonalize() {
     },
 
     // Output user weights and when appropriate their changes.
-    outputUserWeights: function (e: any) {
+    outputUserWeights: function (e: SelectedListEvent | ChosenLookbookEvent | InterestsChosenEvent) {
       const wi = []
-      const ci = this.interestsInfo() as any
+      const ci = this.interestsInfo()
       let sum = 0.0
       let wk = null
       for (wk in e.user_weights) {
@@ -668,8 +984,8 @@ export function NewPersonalize() {
           interest: ci[wk] || wk,
           score: this.limit(score),
           percent: this.limit((score / sum) * 100),
-          delta: null as any,
-          dir: null as any
+          delta: null as number | null,
+          dir: null as string | null
         }
         if (this.lastUserWeights) {
           const delta = score - this.lastUserWeights[wk]
@@ -691,18 +1007,19 @@ export function NewPersonalize() {
 
     // Map category UID to its name mapping.
     interestsInfo: function () {
-      const ci = {} as any
+      const ci: { [uid: string]: string } = {}
       for (const k in this.defaultInterests) {
-        ci[k] = this.defaultInterests[k].name.en
+        const name = this.defaultInterests[k].name
+        ci[k] = this.chooseText(name)
       }
       return ci
     },
 
     // Map posts UID to title, interests and score.
-    lookbookInfo: function (ci: any) {
-      const m = {} as any
+    lookbookInfo: function (ci: { [uid: string]: string }) {
+      const m: { [uid: string]: { title: string, interests: string, score: number, percent: number, selected: string, history: string } } = {}
       let sum = 0.0
-      let p = null as any
+      let p: ScoredItem
       for (p of this.scored) {
         sum += p.score
       }
@@ -716,11 +1033,12 @@ export function NewPersonalize() {
         }
         // Create mapping.
         m[p.uid] = {
-          title: p.title,
+          title: this.chooseText(p.title),
           interests: interests.join(' | '),
           score: this.limit(p.score),
           percent: this.limit((p.score / sum) * 100),
-          selected: ''
+          selected: '',
+          history: ''
         }
       }
       return m
@@ -730,27 +1048,138 @@ export function NewPersonalize() {
     // STORAGE: Read and write local storage with personalized data.
     //--------------------------------------------------------------------
 
-    // Save the weights in the local browser storage.
-    setWeights: function (weights: any) {
-      localStorage.setItem(localStorageKeyName, JSON.stringify(weights))
+    // Save the weights in the local browser storage. Every weight is
+    // stamped with the current time: the values passed in were decayed
+    // up to now when they were read, so decay restarts from here.
+    // Without consent to personalization nothing is saved.
+    setWeights: function (weights: UserWeights) {
+      if (!hasConsent('personalization')) {
+        return
+      }
+      const now = Date.now()
+      const previous = this.readStoredWeights()
+      const stored: StoredWeights = { version: weightsVersion, weights: { ...(previous ? previous.weights : {}) } }
+      for (const k in weights) {
+        // A weight the caller passed back as read (decayed to now) keeps
+        // its old stamp, or it would never decay while others change.
+        const entry = stored.weights[k]
+        if (!entry || Math.abs(this.decayWeight(k, entry, now) - weights[k]) > 1e-6) {
+          stored.weights[k] = { w: weights[k], t: now }
+        }
+      }
+      getStorage().setJSON(localStorageKeyName, stored)
     },
 
-    // Save the weights in the local browser storage.
-    getWeights: function () {
-      const v = localStorage.getItem(localStorageKeyName)
-      if (v) {
-        console.log('found v: ' + v)
-        return JSON.parse(v)
-       
+    // Read the weights from the local browser storage, decayed to the
+    // current time. Users without stored weights, or who haven't
+    // consented to personalization, get the feed's default interest
+    // weights.
+    getWeights: function (): UserWeights {
+      const stored = hasConsent('personalization') ? this.readStoredWeights() : null
+      if (stored) {
+        return this.decayWeights(stored, Date.now())
       }
-      const weights = {} as any
-      console.log(this.defaultInterests)
+      const weights: UserWeights = {}
       for (const k in this.defaultInterests) {
         weights[k] = this.defaultInterests[k].weight || this.initialWeight
-        console.log(weights)
       }
-      console.log(weights)
       return weights
+    },
+
+    // Read the stored weights blob, migrating older formats. Returns
+    // null when nothing usable is stored.
+    readStoredWeights: function (): StoredWeights | null {
+      // getJSON() drops corrupt values, so a bad blob reads as none.
+      const data = getStorage().getJSON<{ [key: string]: unknown }>(localStorageKeyName)
+      if (data === null || typeof data !== 'object') {
+        return null
+      }
+
+      // Version 1: a flat map of weights. Convert it, treating every
+      // weight as just written, and save it in the new format.
+      if (data.version === undefined) {
+        const now = Date.now()
+        const migrated: StoredWeights = { version: weightsVersion, weights: {} }
+        for (const k in data) {
+          const w = data[k]
+          if (typeof w === 'number') {
+            migrated.weights[k] = { w, t: now }
+          }
+        }
+        getStorage().setJSON(localStorageKeyName, migrated)
+        return migrated
+      }
+
+      if (data.version === weightsVersion && data.weights && typeof data.weights === 'object') {
+        return data as StoredWeights
+      }
+      console.log('Unsupported user weights version: ' + data.version)
+      return null
+    },
+
+    // Add a click or impression of `uid` to the history. Entries past
+    // every cooldown are dropped, then the oldest beyond
+    // historyMaxEntries. Nothing is kept without consent to
+    // personalization or when the history is off.
+    recordHistory: function (uid: string, kind: 'click' | 'impression') {
+      if (!hasConsent('personalization') || this.historyMode === 'off') {
+        return
+      }
+      const now = Date.now()
+      const history = this.getHistory()
+      const entry = history.entries[uid] || {}
+      if (kind === 'click') {
+        entry.c = now
+      } else {
+        entry.s = now
+      }
+      history.entries[uid] = entry
+
+      const latest = (k: string) => Math.max(history.entries[k].c || 0, history.entries[k].s || 0)
+      const maxCooldown = Math.max(this.clickCooldown, this.impressionCooldown, this.promoteCooldown)
+      const uids = Object.keys(history.entries).filter((k) => now - latest(k) < maxCooldown || k === uid)
+      uids.sort((a, b) => latest(b) - latest(a))
+      const entries: StoredHistory['entries'] = {}
+      for (const k of uids.slice(0, this.historyMaxEntries)) {
+        entries[k] = history.entries[k]
+      }
+      getStorage().setJSON(historyKeyName, { version: historyVersion, entries })
+    },
+
+    // Read the clicked/seen history. Missing, corrupt or unknown
+    // versions read as empty, as does everything without consent.
+    getHistory: function (): StoredHistory {
+      const empty: StoredHistory = { version: historyVersion, entries: {} }
+      if (!hasConsent('personalization')) {
+        return empty
+      }
+      const data = getStorage().getJSON<StoredHistory>(historyKeyName)
+      if (!data || data.version !== historyVersion || !data.entries || typeof data.entries !== 'object') {
+        return empty
+      }
+      return data
+    },
+
+    // Move each weight back toward its feed default based on the time
+    // since it was written: halfway every decayHalfLife.
+    decayWeights: function (stored: StoredWeights, now: number): UserWeights {
+      const weights: UserWeights = {}
+      for (const k in stored.weights) {
+        weights[k] = this.decayWeight(k, stored.weights[k], now)
+      }
+      return weights
+    },
+
+    // Decay one stored weight to `now`. Interests the current feed
+    // doesn't know decay toward 0.
+    decayWeight: function (interest: string, entry: { w: number, t: number }, now: number): number {
+      if (this.decayHalfLife <= 0) {
+        return entry.w
+      }
+      const d = this.defaultInterests[interest]
+      const target = d ? d.weight : 0
+      const factor = Math.pow(0.5, Math.max(0, now - entry.t) / this.decayHalfLife)
+      return target + (entry.w - target) * factor
     }
   }
 
@@ -0,0 +1,29 @@
+import { createRng } from "./rng";
+
+const take = (next: () => number, count: number) => Array.from({ length: count }, next);
+
+describe("createRng", () => {
+  it("replays the same numbers for the same seed and stream", () => {
+    expect(take(createRng(42, "sched:news").next, 5)).toEqual(take(createRng(42, "sched:news").next, 5));
+  });
+
+  it("derives independent streams from one seed", () => {
+    const news = take(createRng(42, "sched:news").next, 5);
+    expect(take(createRng(42, "sched:sports").next, 5)).not.toEqual(news);
+    expect(take(createRng(43, "sched:news").next, 5)).not.toEqual(news);
+  });
+
+  it("doesn't depend on how other streams were used", () => {
+    const alone = take(createRng(7, "b").next, 3);
+    const other = createRng(7, "a");
+    take(other.next, 10);
+    expect(take(createRng(7, "b").next, 3)).toEqual(alone);
+  });
+
+  it("returns numbers in [0, 1)", () => {
+    for (const value of take(createRng(1).next, 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
@@ -0,0 +1,38 @@
+// Seedable random number generator (mulberry32). A widget picks one
+// seed; every consumer derives its own stream from it by name, so the
+// numbers a consumer sees don't depend on the order in which other
+// consumers (e.g. feeds arriving over the network) used theirs.
+
+export type Rng = {
+  seed: number; // Widget seed this stream was derived from.
+  stream: string; // Name of the stream.
+  next: () => number; // Uniform number in [0, 1).
+};
+
+// Query string parameter QA can use to replay a logged selection.
+export const seedParameter = "softbox-seed";
+
+export const randomSeed = () => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+const hashString = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const createRng = (seed: number, stream = ""): Rng => {
+  let state = (seed ^ hashString(stream)) >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+  return { seed, stream, next };
+};
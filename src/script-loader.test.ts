@@ -0,0 +1,47 @@
+import { loadScript } from "./script-loader";
+
+const scripts = (url: string) =>
+  Array.from(document.head.querySelectorAll("script")).filter((script) => script.src === url);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  document.head.innerHTML = "";
+});
+
+describe("loadScript", () => {
+  it("appends one script for every caller", async () => {
+    const url = "https://partner.example/once.js";
+    const first = loadScript(url);
+    const second = loadScript(url);
+    expect(scripts(url)).toHaveLength(1);
+    scripts(url)[0].dispatchEvent(new Event("load"));
+    await expect(Promise.all([first, second])).resolves.toEqual([undefined, undefined]);
+  });
+
+  it("keeps a timed-out script loading for later callers", async () => {
+    const url = "https://partner.example/slow.js";
+    const first = loadScript(url, 100);
+    jest.advanceTimersByTime(100);
+    await expect(first).rejects.toThrow("Timed out");
+
+    const second = loadScript(url, 100);
+    expect(scripts(url)).toHaveLength(1);
+    scripts(url)[0].dispatchEvent(new Event("load"));
+    await expect(second).resolves.toBeUndefined();
+  });
+
+  it("forgets a failed script so it can be tried again", async () => {
+    const url = "https://partner.example/broken.js";
+    const first = loadScript(url);
+    scripts(url)[0].dispatchEvent(new Event("error"));
+    await expect(first).rejects.toThrow("Failed to load");
+    expect(scripts(url)).toHaveLength(0);
+
+    loadScript(url);
+    expect(scripts(url)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,44 @@
+// Load third-party scripts (partner widgets, ad tags) once per page.
+// Every caller asking for the same URL shares one <script> element.
+// A caller's promise rejects if the script fails to load or takes
+// longer than `timeoutMs`; a timed-out script is left loading so later
+// callers wait on the same element. Only a failed load is forgotten,
+// so a later call can try again.
+
+const loads = new Map<string, Promise<void>>();
+
+const appendScript = (url: string): Promise<void> => {
+  const load = new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.async = true;
+    script.src = url;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      loads.delete(url);
+      reject(new Error(`Failed to load ${url}`));
+    };
+    document.head.appendChild(script);
+  });
+  loads.set(url, load);
+  return load;
+};
+
+export const loadScript = (url: string, timeoutMs = 8000): Promise<void> => {
+  const load = loads.get(url) || appendScript(url);
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new Error(`Timed out loading ${url}`));
+    }, timeoutMs);
+    load.then(
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+};
@@ -0,0 +1,130 @@
+import * as fs from "fs";
+import news from "../dummy-data/softbox-payload";
+import { describeDropped, validateFeed } from "../feed";
+import { ParamSet, SimulationOptions, defaultOptions, simulate } from "./simulate";
+
+// Command line front end for simulate.ts. Run with `npm run simulate`
+// and pass options after `--`:
+//
+//   --feed <file.json>     recorded feed (default dummy-data/softbox-payload.js)
+//   --configs <file.json>  array of { "name": ..., "params": {...} }
+//   --users <n> --rounds <n> --slate <n> --liked <n> --seed <n>
+//   --keep-promoted        let promoted lookbooks bypass scoring
+//   --out <file.json>      also write the JSON report to a file
+//   --json                 print the JSON report instead of the table
+
+const defaultParamSets: ParamSet[] = [
+  { name: "baseline", params: {} },
+  { name: "fast-filter", params: { filterConst: 0.85 } },
+  { name: "slow-filter", params: { filterConst: 0.98 } },
+  { name: "more-variety", params: { deprioritization: 0.5, scoreBoostExponent: 1.2 } },
+  { name: "greedy", params: { scoreBoostExponent: 3, level0Multiplier: 3 } },
+];
+
+const numericOptions: { [flag: string]: keyof SimulationOptions } = {
+  "--users": "users",
+  "--rounds": "rounds",
+  "--slate": "slateSize",
+  "--liked": "likedInterests",
+  "--seed": "seed",
+};
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const parseArgs = (args: string[]) => {
+  const parsed = {
+    options: { ...defaultOptions },
+    feedFile: null as string | null,
+    configsFile: null as string | null,
+    outFile: null as string | null,
+    json: false,
+  };
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (flag === "--json") {
+      parsed.json = true;
+      continue;
+    }
+    if (flag === "--keep-promoted") {
+      parsed.options.keepPromoted = true;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      fail(`Missing value for ${flag}`);
+    }
+    if (numericOptions[flag]) {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 0) {
+        fail(`${flag} must be a non-negative integer`);
+      }
+      parsed.options = { ...parsed.options, [numericOptions[flag]]: n };
+    } else if (flag === "--feed") {
+      parsed.feedFile = value;
+    } else if (flag === "--configs") {
+      parsed.configsFile = value;
+    } else if (flag === "--out") {
+      parsed.outFile = value;
+    } else {
+      fail(`Unknown option ${flag}`);
+    }
+  }
+  return parsed;
+};
+
+const readJson = (file: string): unknown => {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    return fail(`Could not read ${file}: ${(err as Error).message}`);
+  }
+};
+
+const main = () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  const validation = validateFeed(args.feedFile ? readJson(args.feedFile) : news);
+  validation.dropped.forEach((entry) => console.error(describeDropped(entry)));
+  const feed = validation.payload ?? fail(`Bad feed: ${validation.error}`);
+
+  let paramSets = defaultParamSets;
+  if (args.configsFile) {
+    const configs = readJson(args.configsFile);
+    if (!Array.isArray(configs) || !configs.every((c) => c && typeof c.name === "string")) {
+      fail(`${args.configsFile} must be an array of { "name": ..., "params": {...} }`);
+    }
+    paramSets = (configs as ParamSet[]).map((c) => ({ name: c.name, params: c.params ?? {} }));
+  }
+
+  const results = simulate(feed, paramSets, args.options);
+  const report = { options: args.options, items: feed.items.length, results };
+
+  if (args.outFile) {
+    fs.writeFileSync(args.outFile, JSON.stringify(report, null, 2) + "\n");
+  }
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  console.log(
+    `${feed.items.length} lookbooks, ${args.options.users} users x ${args.options.rounds} rounds, ` +
+      `slate ${args.options.slateSize}, seed ${args.options.seed}`
+  );
+  console.table(
+    results.map((r) => ({
+      config: r.name,
+      ctr: r.ctr,
+      oracle_ctr: r.oracleCtr,
+      slate_quality: r.slateQuality,
+      converged_at: r.convergenceRound ?? "-",
+      coverage: r.interestCoverage,
+      weight_error: r.weightError,
+      weight_drift: r.weightDrift,
+    }))
+  );
+};
+
+main();
@@ -0,0 +1,250 @@
+import { FeedItem, FeedPayload } from "../feed";
+import NewPersonalize, { UserWeights } from "../personalize";
+import { Rng, createRng } from "../rng";
+import { configureStorage } from "../storage";
+
+// Offline simulation of the personalization loop. Synthetic users with
+// hidden interest preferences are shown slates picked by choose() and
+// click according to those preferences; we measure how well and how
+// fast a parameter set learns them.
+
+// The NewPersonalize() fields a simulation can tune.
+export type PersonalizeParams = {
+  filterConst?: number;
+  hitValue?: number;
+  missValue?: number;
+  deprioritization?: number;
+  scoreBoostExponent?: number;
+  level0Multiplier?: number;
+};
+
+export type ParamSet = {
+  name: string;
+  params: PersonalizeParams;
+};
+
+export type SimulationOptions = {
+  users: number; // Synthetic users per parameter set.
+  rounds: number; // choose/click rounds per user.
+  slateSize: number; // Lookbooks shown per round.
+  likedInterests: number; // Interests each user secretly likes.
+  keepPromoted: boolean; // Honour `promote`; off by default since promoted
+  // lookbooks bypass scoring and would fill the slate regardless of params.
+  seed: number;
+};
+
+export type SimulationResult = {
+  name: string;
+  params: PersonalizeParams;
+  ctr: number; // Share of rounds with a click.
+  oracleCtr: number; // Same, if every slate were the user's true top picks.
+  slateQuality: number; // Final slate quality relative to the oracle slate.
+  convergenceRound: number | null; // Median round users reached the convergence target.
+  interestCoverage: number; // Share of feed interests shown at least once.
+  weightError: number; // Mean gap between learned and true preferences.
+  weightDrift: number; // Mean change of learned weights over the run.
+};
+
+export const defaultOptions: SimulationOptions = {
+  users: 50,
+  rounds: 100,
+  slateSize: 4,
+  likedInterests: 3,
+  keepPromoted: false,
+  seed: 1,
+};
+
+// A user has converged once slate quality, averaged over the window,
+// reaches this share of the oracle slate's quality. A fixed target, so
+// parameter sets that learn faster converge sooner.
+const convergenceTarget = 0.6;
+const convergenceWindow = 10;
+
+type SyntheticUser = {
+  preferences: UserWeights; // Hidden probability of liking each interest.
+};
+
+const feedInterests = (items: FeedItem[]) => {
+  const interests = new Set<string>();
+  for (const item of items) {
+    item.interests.forEach((interest) => interests.add(interest));
+  }
+  return Array.from(interests);
+};
+
+const createUser = (interests: string[], liked: number, rng: Rng): SyntheticUser => {
+  const preferences: UserWeights = {};
+  for (const interest of interests) {
+    preferences[interest] = 0.02 + rng.next() * 0.1;
+  }
+  const pool = interests.slice();
+  for (let i = 0; i < liked && pool.length > 0; i++) {
+    const [interest] = pool.splice(Math.floor(rng.next() * pool.length), 1);
+    preferences[interest] = 0.6 + rng.next() * 0.3;
+  }
+  return { preferences };
+};
+
+// Chance the user clicks an item: the primary interest counts double,
+// as it does in scoring.
+const clickChance = (user: SyntheticUser, item: FeedItem) => {
+  let sum = 0;
+  let weight = 0;
+  item.interests.forEach((interest, i) => {
+    const w = i === 0 ? 2 : 1;
+    sum += w * (user.preferences[interest] ?? 0);
+    weight += w;
+  });
+  return weight > 0 ? sum / weight : 0;
+};
+
+const mean = (values: number[]) => {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+};
+
+// Mean click chance of the items on a slate; slate quality is this
+// relative to the oracle slate.
+const itemQuality = (user: SyntheticUser, slate: FeedItem[]) => {
+  return mean(slate.map((item) => clickChance(user, item)));
+};
+
+// Chance of at least one click on a slate.
+const slateChance = (user: SyntheticUser, slate: FeedItem[]) => {
+  return 1 - slate.reduce((miss, item) => miss * (1 - clickChance(user, item)), 1);
+};
+
+
+// Median of per-user convergence rounds, counting users who never
+// converged as later than any round. Null when most never did.
+const medianRound = (values: (number | null)[]) => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = values.map((v) => v ?? Infinity).sort((a, b) => a - b);
+  const middle = sorted[Math.floor(sorted.length / 2)];
+  return Number.isFinite(middle) ? middle : null;
+};
+
+// Normalize weights to [0, 1] by their maximum so learned weights and
+// true preferences can be compared.
+const normalize = (weights: UserWeights, keys: string[]) => {
+  const max = Math.max(...keys.map((k) => weights[k] ?? 0), 1e-9);
+  const result: UserWeights = {};
+  keys.forEach((k) => (result[k] = (weights[k] ?? 0) / max));
+  return result;
+};
+
+const runUser = (
+  feed: FeedPayload,
+  paramSet: ParamSet,
+  options: SimulationOptions,
+  userIndex: number
+) => {
+  // Fresh in-memory storage: every synthetic user starts from a clean
+  // profile and nothing touches a real browser profile.
+  configureStorage({ preferred: ["memory"] });
+  const interests = feedInterests(feed.items);
+  const userRng = createRng(options.seed, `user:${userIndex}`);
+  const user = createUser(interests, options.likedInterests, userRng);
+  const clickRng = createRng(options.seed, `clicks:${userIndex}`);
+
+  const instance = NewPersonalize();
+  Object.assign(instance, paramSet.params);
+  instance.setRandom(createRng(options.seed, `choose:${userIndex}`));
+
+  const oracleSlate = feed.items
+    .slice()
+    .sort((a, b) => clickChance(user, b) - clickChance(user, a))
+    .slice(0, options.slateSize);
+  const oracleChance = slateChance(user, oracleSlate);
+  const oracleQuality = itemQuality(user, oracleSlate);
+
+  instance.defaultInterests = feed.interests;
+  const startWeights = instance.getWeights();
+  const shown = new Set<string>();
+  const quality: number[] = [];
+  let clicks = 0;
+
+  // Every round plays at the same instant, so the history cooldowns
+  // (wall-clock hours and days) would hold a clicked lookbook back for
+  // the rest of the run. Simulations measure weight learning only.
+  const settings = { count: options.slateSize, history: { mode: "off" as const } };
+  for (let round = 0; round < options.rounds; round++) {
+    const slate = instance.choose(feed.items, settings, feed.interests);
+    slate.forEach((item) => item.interests.forEach((interest) => shown.add(interest)));
+    quality.push(oracleQuality > 0 ? itemQuality(user, slate) / oracleQuality : 0);
+
+    for (const item of slate) {
+      if (clickRng.next() < clickChance(user, item)) {
+        instance.click(item.uid, item.interests);
+        clicks++;
+        break;
+      }
+    }
+  }
+
+  const finalQuality = mean(quality.slice(-convergenceWindow));
+  let convergedAt: number | null = null;
+  for (let end = convergenceWindow; end <= quality.length; end++) {
+    if (mean(quality.slice(end - convergenceWindow, end)) >= convergenceTarget) {
+      convergedAt = end;
+      break;
+    }
+  }
+
+  const endWeights = instance.getWeights();
+  const learned = normalize(endWeights, interests);
+  const truth = normalize(user.preferences, interests);
+  return {
+    ctr: clicks / options.rounds,
+    oracleCtr: oracleChance,
+    finalQuality,
+    convergedAt,
+    coverage: shown.size / Math.max(1, interests.length),
+    weightError: mean(interests.map((k) => Math.abs(learned[k] - truth[k]))),
+    weightDrift: mean(interests.map((k) => Math.abs((endWeights[k] ?? 0) - (startWeights[k] ?? 0)))),
+  };
+};
+
+const round3 = (x: number) => Math.round(x * 1000) / 1000;
+
+// Run every parameter set against the same synthetic users and return
+// one result per set. Uses in-memory storage and silences the
+// library's console.log output while running.
+export const simulate = (
+  feed: FeedPayload,
+  paramSets: ParamSet[],
+  options: SimulationOptions = defaultOptions
+): SimulationResult[] => {
+  if (!options.keepPromoted) {
+    feed = { ...feed, items: feed.items.map((item) => ({ ...item, promote: false })) };
+  }
+  const g = globalThis as unknown as { [name: string]: unknown };
+  const saved = { window: g.window, log: console.log };
+  g.window = g.window ?? globalThis;
+  console.log = () => {};
+
+  try {
+    return paramSets.map((paramSet) => {
+      const runs = [];
+      for (let u = 0; u < options.users; u++) {
+        runs.push(runUser(feed, paramSet, options, u));
+      }
+      return {
+        name: paramSet.name,
+        params: paramSet.params,
+        ctr: round3(mean(runs.map((r) => r.ctr))),
+        oracleCtr: round3(mean(runs.map((r) => r.oracleCtr))),
+        slateQuality: round3(mean(runs.map((r) => r.finalQuality))),
+        convergenceRound: medianRound(runs.map((r) => r.convergedAt)),
+        interestCoverage: round3(mean(runs.map((r) => r.coverage))),
+        weightError: round3(mean(runs.map((r) => r.weightError))),
+        weightDrift: round3(mean(runs.map((r) => r.weightDrift))),
+      };
+    });
+  } finally {
+    configureStorage({});
+    g.window = saved.window;
+    console.log = saved.log;
+  }
+};
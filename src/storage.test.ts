@@ -0,0 +1,89 @@
+import { KeyValueStore, createStorage } from "./storage";
+
+// A store that works, or throws on every call like a blocked
+// localStorage does.
+const hostStore = (blocked = false): KeyValueStore & { data: Map<string, string> } => {
+  const data = new Map<string, string>();
+  const check = () => {
+    if (blocked) {
+      throw new Error("SecurityError");
+    }
+  };
+  return {
+    data,
+    getItem: (key) => {
+      check();
+      return data.get(key) ?? null;
+    },
+    setItem: (key, value) => {
+      check();
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      check();
+      data.delete(key);
+    },
+  };
+};
+
+beforeEach(() => {
+  window.localStorage.clear();
+  window.sessionStorage.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("createStorage", () => {
+  it("uses the first backend that works", () => {
+    expect(createStorage(["host", "localStorage", "memory"], hostStore()).mode).toBe("host");
+    expect(createStorage(["host", "localStorage", "memory"]).mode).toBe("localStorage");
+    expect(createStorage(["host", "localStorage"], hostStore(true)).mode).toBe("localStorage");
+  });
+
+  it("skips a blocked localStorage", () => {
+    jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+    expect(createStorage(["localStorage", "sessionStorage", "memory"]).mode).toBe("memory");
+  });
+
+  it("always ends with memory", () => {
+    const storage = createStorage(["host"], hostStore(true));
+    expect(storage.mode).toBe("memory");
+    expect(storage.set("key", "value")).toBe(true);
+    expect(storage.get("key")).toBe("value");
+  });
+
+  it("falls back when a backend fails after opening", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const host = hostStore();
+    const storage = createStorage(["host", "sessionStorage"], host);
+    host.setItem = () => {
+      throw new Error("bridge gone");
+    };
+    expect(storage.set("key", "value")).toBe(true);
+    expect(storage.mode).toBe("sessionStorage");
+    expect(window.sessionStorage.getItem("key")).toBe("value");
+  });
+
+  it("reports quota errors without switching backend", () => {
+    const host = hostStore();
+    const storage = createStorage(["host"], host);
+    host.setItem = () => {
+      throw Object.assign(new Error("full"), { name: "QuotaExceededError" });
+    };
+    expect(storage.set("key", "value")).toBe(false);
+    expect(storage.mode).toBe("host");
+  });
+
+  it("removes corrupt JSON values", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    const host = hostStore();
+    host.data.set("key", "{not json");
+    const storage = createStorage(["host"], host);
+    expect(storage.getJSON("key")).toBeNull();
+    expect(host.data.has("key")).toBe(false);
+  });
+});
@@ -0,0 +1,227 @@
+// Storage that keeps working when the browser won't let us store.
+// localStorage throws in Safari private mode, sandboxed iframes and
+// when over quota; all persistent state goes through here so those
+// failures fall back to a backend that works instead of breaking
+// clicks or rendering.
+
+export type StorageMode = "host" | "localStorage" | "sessionStorage" | "memory";
+
+// The subset of the Web Storage API a backend needs. Host pages can
+// supply their own (e.g. backed by a first-party cookie or an app
+// bridge) through configureStorage() or window.softboxStorage.
+export interface KeyValueStore {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+export interface SafeStorage {
+  readonly mode: StorageMode; // Backend currently in use.
+  get: (key: string) => string | null;
+  set: (key: string, value: string) => boolean; // False if not stored.
+  remove: (key: string) => void;
+  getJSON: <T = unknown>(key: string) => T | null; // Corrupt values are removed.
+  setJSON: (key: string, value: unknown) => boolean;
+}
+
+export type StorageOptions = {
+  preferred?: StorageMode[]; // Backends to try, in order.
+  host?: KeyValueStore;
+};
+
+const defaultOrder: StorageMode[] = ["host", "localStorage", "sessionStorage", "memory"];
+const probeKey = "softbox-storage-probe";
+
+const memoryStore = (): KeyValueStore => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key) => (data.has(key) ? data.get(key)! : null),
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+};
+
+const isQuotaError = (err: unknown) => {
+  const name = (err as { name?: string })?.name;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+};
+
+// The browser or host store behind `mode`, if there is one. Accessing
+// window.localStorage can itself throw.
+const findBackend = (mode: StorageMode, host?: KeyValueStore): KeyValueStore | undefined => {
+  if (mode === "host") {
+    const w = window as Window & { softboxStorage?: KeyValueStore };
+    return host || w.softboxStorage;
+  } else if (mode === "localStorage") {
+    return window.localStorage;
+  } else if (mode === "sessionStorage") {
+    return window.sessionStorage;
+  }
+  return undefined;
+};
+
+// Return the backend for `mode` if it exists and a write/read/remove
+// round trip works.
+const openBackend = (mode: StorageMode, host?: KeyValueStore): KeyValueStore | null => {
+  try {
+    if (mode === "memory") {
+      return memoryStore();
+    }
+    const store = findBackend(mode, host);
+    if (!store) {
+      return null;
+    }
+    store.setItem(probeKey, probeKey);
+    const ok = store.getItem(probeKey) === probeKey;
+    store.removeItem(probeKey);
+    return ok ? store : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+// Create storage over the first working backend in `order`. If a
+// backend later fails for a reason other than quota, the next working
+// one takes over for the rest of the page view.
+export const createStorage = (order: StorageMode[], host?: KeyValueStore): SafeStorage => {
+  const remaining = order.includes("memory") ? order.slice() : [...order, "memory" as const];
+  let mode: StorageMode = "memory";
+  let backend: KeyValueStore = memoryStore();
+
+  const advance = () => {
+    while (remaining.length > 0) {
+      const next = remaining.shift()!;
+      const opened = openBackend(next, host);
+      if (opened) {
+        mode = next;
+        backend = opened;
+        return;
+      }
+    }
+  };
+  advance();
+
+  const fail = (err: unknown) => {
+    console.warn(`Storage ${mode} failed (${(err as Error).message}), falling back`);
+    advance();
+  };
+
+  const storage: SafeStorage = {
+    get mode() {
+      return mode;
+    },
+    get: (key) => {
+      try {
+        return backend.getItem(key);
+      } catch (err) {
+        fail(err);
+        return null;
+      }
+    },
+    set: (key, value) => {
+      try {
+        backend.setItem(key, value);
+        return true;
+      } catch (err) {
+        if (isQuotaError(err)) {
+          return false;
+        }
+        fail(err);
+        try {
+          backend.setItem(key, value);
+          return true;
+        } catch (retryErr) {
+          return false;
+        }
+      }
+    },
+    remove: (key) => {
+      try {
+        backend.removeItem(key);
+      } catch (err) {
+        fail(err);
+      }
+    },
+    getJSON: <T,>(key: string) => {
+      const v = storage.get(key);
+      if (v === null) {
+        return null;
+      }
+      try {
+        return JSON.parse(v) as T;
+      } catch (err) {
+        console.warn(`Removing corrupt stored value ${key}`);
+        storage.remove(key);
+        return null;
+      }
+    },
+    setJSON: (key, value) => {
+      return storage.set(key, JSON.stringify(value));
+    },
+  };
+  return storage;
+};
+
+let persistent: SafeStorage | null = null;
+let session: SafeStorage | null = null;
+let options: StorageOptions = {};
+let permitted = true;
+
+// Choose the backends used from now on (for the host page, tests and
+// the simulator). Calling it again starts from fresh backends.
+export const configureStorage = (newOptions: StorageOptions) => {
+  options = newOptions;
+  persistent = null;
+  session = null;
+};
+
+// Allow or forbid writing to the browser. While forbidden (e.g. until
+// the user consents) both storages are memory-only, so nothing is
+// written to, or read from, the device.
+export const setStoragePermitted = (value: boolean) => {
+  if (value !== permitted) {
+    permitted = value;
+    persistent = null;
+    session = null;
+  }
+};
+
+// Storage that should survive the page: weights, caches.
+export const getStorage = () => {
+  const order = permitted ? options.preferred || defaultOrder : ["memory" as const];
+  persistent = persistent || createStorage(order, options.host);
+  return persistent;
+};
+
+// Storage for the current browsing session only.
+export const getSessionStorage = () => {
+  session = session || createStorage(permitted ? ["sessionStorage", "memory"] : ["memory"]);
+  return session;
+};
+
+// Remove `keys` from every backend they may have been written to,
+// whether or not storage is currently permitted.
+export const purgeStored = (keys: string[]) => {
+  const modes: StorageMode[] = ["host", "localStorage", "sessionStorage"];
+  for (const mode of modes) {
+    try {
+      const store = findBackend(mode, options.host);
+      keys.forEach((key) => store?.removeItem(key));
+    } catch (err) {
+      // Blocked backends hold nothing of ours.
+    }
+  }
+  keys.forEach((key) => {
+    persistent?.remove(key);
+    session?.remove(key);
+  });
+};
+
+// Which backends are active, for diagnostics.
+export const storageMode = () => {
+  return { persistent: getStorage().mode, session: getSessionStorage().mode };
+};
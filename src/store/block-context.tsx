@@ -0,0 +1,24 @@
+import React from "react";
+import { BlockFotoscapeConfig } from "../definition";
+
+export type LinkDestination = NonNullable<BlockFotoscapeConfig["settings"]["link_destination"]>;
+
+// What a rendered item needs to know about the block it sits in: for
+// analytics, the block's index in the template, its category and the
+// uids of its items in display order; for links, where they lead (see
+// ItemLink).
+type BlockContextObj = {
+  position: number | null;
+  category?: string;
+  itemUids: string[];
+  linkDestination?: LinkDestination; // Defaults to "fotoscape".
+  transition?: boolean; // Animate opening articles and teasers.
+  hideDescription?: boolean; // Stub teasers leave out the summary.
+};
+
+export const BlockContext = React.createContext<BlockContextObj>({
+  position: null,
+  itemUids: [],
+});
+
+export default BlockContext;
@@ -1,14 +1,75 @@
-import React, { ReactNode } from "react";
+import React, { ReactNode, useMemo, useRef } from "react";
 import { ItemList, FotoscapeItem } from "../definition";
 import { useState, useCallback } from "react";
-import NewPersonalize from "../personalize";
+import NewPersonalize, { HistorySettings, UserWeights } from "../personalize";
+import { FeedInterests, FeedItem, FeedPayload } from "../feed";
+import { fetchPageFeed, readPageFeed } from "../page-feeds";
+import { createRng, randomSeed } from "../rng";
+import { ImpressionConfig, defaultImpressionConfig } from "../hooks/use-impression";
+import { Coordination } from "../hooks/use-coordination";
+import { TextDirection, textDirection } from "../locale";
+import { ImageFinder } from "../images";
+import { PartnerConfig, defaultPartnerConfig } from "../partners";
+import useArticle, { OpenArticle } from "../hooks/use-article";
+import { ContentSource, createFotoscapesSource } from "../content-source";
+import { EventBus, createEventBus, forwardPersonalizeEvent } from "../analytics/bus";
+import { consented, dataLayerSink } from "../analytics/sinks";
 
-const instance = NewPersonalize(); 
+const defaultSource = createFotoscapesSource();
+
+// For providers mounted without a bus; like a configured dataLayer
+// sink, it waits for measurement consent.
+let defaultBus: EventBus | null = null;
+const getDefaultBus = () => {
+  defaultBus = defaultBus || createEventBus("softbox-widget", [consented(dataLayerSink())]);
+  return defaultBus;
+};
+
+// Whether two copies of a feed carry the same lookbooks, whatever
+// their order or content.
+const sameLookbooks = (a: FeedPayload, b: FeedPayload) => {
+  if (a.items.length !== b.items.length) {
+    return false;
+  }
+  const uids = new Set(a.items.map((item) => item.uid));
+  return b.items.every((item) => uids.has(item.uid));
+};
+
+// Where an item sits on the page, attached to its analytics events.
+export type ItemPlacement = {
+  blockPosition: number | null;
+  itemPosition: number;
+  category?: string;
+};
+
+// A feed interest as an interest picker shows it.
+export type InterestChoice = {
+  uid: string;
+  name: string; // In the widget's locale.
+  picked: boolean; // Whether the user currently follows it.
+};
 
 type SoftboxContextObj = {
   fetchCategory: (category: string) => void;
-  defaultInterests: any; 
-  click: (uid: string, interests: string[])=>void; 
+  defaultInterests: FeedInterests; 
+  click: (uid: string, interests: string[], placement?: ItemPlacement)=>void; 
+  impression: (uid: string, interests: string[], placement?: ItemPlacement)=>void;
+  emit: EventBus["emit"];
+  impressionConfig: ImpressionConfig;
+  getUserWeights: () => UserWeights;
+  getInterests: () => InterestChoice[];
+  chooseInterests: (uids: string[]) => void;
+  seed: number;
+  coordination: Coordination | null;
+  locale: string;
+  direction: TextDirection;
+  failed: { [category: string]: boolean }; // Categories that couldn't be loaded.
+  findImage: ImageFinder;
+  partners: Required<PartnerConfig>;
+  widgetId: string;
+  article: OpenArticle | null; // Lookbook open in the article overlay.
+  openArticle: (uid: string, transition: boolean) => void;
+  closeArticle: () => void;
   content: {
     [prop: string]: ItemList;
   };
@@ -17,71 +78,219 @@ export const SoftboxContext = React.createContext<SoftboxContextObj>({
   fetchCategory(category: string) {},
   defaultInterests: {},
   content: {},
-  click: (uid: string, interests: string[])=>{}
+  click: (uid: string, interests: string[], placement?: ItemPlacement)=>{},
+  impression: (uid: string, interests: string[], placement?: ItemPlacement)=>{},
+  emit: () => {},
+  impressionConfig: defaultImpressionConfig,
+  getUserWeights: () => ({}),
+  getInterests: () => [],
+  chooseInterests: () => {},
+  seed: 0,
+  coordination: null,
+  locale: "en",
+  direction: "ltr",
+  failed: {},
+  findImage: (images) => images[0],
+  partners: defaultPartnerConfig,
+  widgetId: "",
+  article: null,
+  openArticle: () => {},
+  closeArticle: () => {},
 });
 
 export const SoftboxContextProvider: React.FC<{
+  source?: ContentSource;
+  seed?: number;
+  impressions?: Partial<ImpressionConfig>;
+  history?: HistorySettings;
+  coordination?: Coordination | null;
+  locale?: string; // Resolved locale (locale.ts resolveLocale()).
+  partners?: PartnerConfig;
+  bus?: EventBus;
   children: ReactNode;
 }> = (props) => {
-  const [content, setContent] = useState({} as any);
-  const [interests, setInterests] = useState({} as any)
+  const source = props.source || defaultSource;
+  const bus = props.bus || getDefaultBus();
+  const history = props.history;
+  const [seed] = useState(() => props.seed ?? randomSeed());
+  // Each widget personalizes with its own instance, so settings that
+  // choose() keeps (count, history, rng) don't leak between widgets.
+  // Weights and history are the user's and live in shared storage.
+  const locale = props.locale || "en";
+  const [instance] = useState(() => NewPersonalize());
+  const [content, setContent] = useState<SoftboxContextObj["content"]>({});
+  const [interests, setInterests] = useState<FeedInterests>({})
+  // Interests of every feed loaded so far; each feed adds its own.
+  const knownInterests = useRef<FeedInterests>({});
+  const [failed, setFailed] = useState<SoftboxContextObj["failed"]>({});
+
+  const impressionConfig = { ...defaultImpressionConfig, ...props.impressions };
+  const { article, openArticle, closeArticle } = useArticle(bus.widgetId);
+  const partners = useMemo(() => ({ ...defaultPartnerConfig, ...props.partners }), [props.partners]);
+  const impressed = useRef(new Set<string>());
+
+  // Point the personalization events at this widget's bus before use.
+  const personalize = useCallback((blockPosition: number | null = null) => {
+    instance.setEventSink((e) => forwardPersonalizeEvent(bus, e, blockPosition));
+    return instance;
+  }, [bus, instance]);
+
+  const getUserWeights = useCallback(() => instance.getWeights(), [instance]);
 
-  const onClick = (uid: string, interests: string[])=>{
-    instance.click(uid, interests)
+  const onClick = (uid: string, interests: string[], placement?: ItemPlacement)=>{
+    const blockPosition = placement ? placement.blockPosition : null;
+    bus.emit("itemClicked", {
+      lookbook: uid,
+      item_position: placement ? placement.itemPosition : -1,
+      category: placement && placement.category,
+    }, blockPosition);
+    personalize(blockPosition).click(uid, interests)
   }
 
-  const fetchCategory = useCallback(async (category: string) => {
-    const baseUrl =
-      "https://fotoscapes.com/wp/v1/daily?ckey=fb529d256155b9c6&previewAspect=1:1&sched=";
-    let itemList: FotoscapeItem[] = [];
-    const requestUrl = baseUrl + category;
-    try {
-      const response = await fetch(requestUrl);
+  // Count each lookbook once per page view, however many times it
+  // scrolls back into view.
+  const onImpression = (uid: string, interests: string[], placement?: ItemPlacement)=>{
+    if (impressed.current.has(uid)) {
+      return;
+    }
+    impressed.current.add(uid);
+    personalize(placement ? placement.blockPosition : null)
+      .impression(uid, interests, impressionConfig.negativeSignal)
+  }
 
-      if (!response.ok) {
-        throw new Error(`Request failed: ${requestUrl}`);
-      }
-      const data = await response.json();
-      setInterests(data.interests); 
-      console.log(data.interests)
+  const addInterests = useCallback((data: FeedPayload) => {
+    knownInterests.current = { ...knownInterests.current, ...data.interests };
+    setInterests(knownInterests.current);
+  }, []);
+
+  const toItem = useCallback((item: FeedItem): FotoscapeItem => ({
+    title: instance.chooseText(item.title),
+    url: item.link,
+    imageUrl: item.previews[3] ?  item.previews[3]['link']: item.previews[0]['link'],
+    description: instance.chooseText(item.summary),
+    uid: item.uid,
+    interests: item.interests,
+    previews: item.previews,
+    images: item.images || [],
+    kb: item.kb,
+    sourceLink: item.sourceLink,
+    owner: item.owner,
+    brandLogo: item.brandLogo,
+    lang: instance.chooseLanguage(item.title) || undefined,
+  }), [instance]);
+
+  // Personalize a validated feed and publish it as the content for
+  // `category`.
+  const showFeed = useCallback((category: string, data: FeedPayload) => {
+    addInterests(data);
+
+    const items = data.items;
+
+    const settings = {
+      count: items.length,
+      history: history,
+    }
+    // Each category gets its own stream so the order feeds arrive in
+    // doesn't change what gets picked.
+    personalize().setRandom(createRng(seed, `sched:${category}`));
+    instance.setLocale(locale);
+    const orderedItems = instance.choose(items, settings, knownInterests.current)
+
+    const itemList = orderedItems.map(toItem);
+    setContent((currLibrary) => {
+      let copy = {
+        ...currLibrary,
+      };
+      copy[category] = itemList;
+      return copy;
+    });
+  }, [seed, personalize, history, instance, locale, addInterests, toItem]);
 
-      const items = data.items;
+  // Swap in a refreshed copy of a feed with the same lookbooks as the
+  // one on show, keeping the slate's order so nothing moves under the
+  // user.
+  const refreshFeed = useCallback((category: string, data: FeedPayload) => {
+    addInterests(data);
+    instance.setLocale(locale);
+    const byUid = new Map(data.items.map((item) => [item.uid, item]));
+    setContent((currLibrary) => {
+      const current = currLibrary[category] || [];
+      return {
+        ...currLibrary,
+        [category]: current.map((item) => {
+          const updated = byUid.get(item.uid);
+          return updated ? toItem(updated) : item;
+        }),
+      };
+    });
+  }, [instance, locale, addInterests, toItem]);
 
-      const settings = {
-        count: items.length
+  // Render straight from the page's feeds or the feed cache when we
+  // can. A fresh entry is used as is; a stale one is shown while a new
+  // copy is fetched, shared with any other widget wanting it. The slate
+  // is only chosen again if the new copy has other lookbooks.
+  const fetchCategory = useCallback(async (category: string) => {
+    const cached = readPageFeed(source, category);
+    if (cached) {
+      showFeed(category, cached.payload);
+      if (cached.fresh) {
+        return;
       }
-      const orderedItems = instance.choose(items, settings, data.interests)
-
-
-      for (let item of orderedItems) {
-        let cleanItem: FotoscapeItem;
-        cleanItem = {
-          title: item.title.en,
-          url: item.link,
-          imageUrl: item.previews[3] ?  item.previews[3]['link']: item.previews[0]['link'],
-          description: item.summary.en,
-          uid: item.uid,
-          interests: item.interests,
-        };
-        itemList.push(cleanItem);
+    }
+    try {
+      const payload = await fetchPageFeed(source, category);
+      if (cached && sameLookbooks(cached.payload, payload)) {
+        refreshFeed(category, payload);
+      } else {
+        showFeed(category, payload);
       }
-      setContent((currLibrary: any) => {
-        let copy = {
-          ...currLibrary,
-        };
-        copy[category] = itemList;
-        return copy;
-      });
     } catch (err) {
       console.log((err as Error).message);
+      bus.emit("fetchFailed", { category, message: (err as Error).message });
+      setFailed((current) => ({ ...current, [category]: true }));
+    }
+  },[source, showFeed, refreshFeed, bus]);
+
+  const getInterests = useCallback(() => {
+    const names = instance.interestsInfo();
+    const picked = instance.pickedInterests();
+    return Object.keys(names).map((uid) => ({ uid, name: names[uid], picked: picked.includes(uid) }));
+  }, [instance]);
+
+  // Apply the user's picked interests and re-rank every feed on show
+  // with the new weights.
+  const chooseInterests = useCallback((uids: string[]) => {
+    personalize().chooseInterests(uids);
+    for (const category of Object.keys(content)) {
+      const cached = readPageFeed(source, category);
+      if (cached) {
+        showFeed(category, cached.payload);
+      }
     }
-  },[]);
+  }, [personalize, content, source, showFeed]);
 
   const contextValue = {
     content: content,
     defaultInterests: interests,
     fetchCategory: fetchCategory,
     click: onClick,
+    impression: onImpression,
+    emit: bus.emit,
+    impressionConfig: impressionConfig,
+    getUserWeights: getUserWeights,
+    getInterests: getInterests,
+    chooseInterests: chooseInterests,
+    seed: seed,
+    coordination: props.coordination || null,
+    locale: locale,
+    direction: textDirection(locale),
+    failed: failed,
+    findImage: instance.findImage,
+    partners: partners,
+    widgetId: bus.widgetId,
+    article: article,
+    openArticle: openArticle,
+    closeArticle: closeArticle,
   };
   return (
     <SoftboxContext.Provider value={contextValue}>
@@ -0,0 +1,55 @@
+import fixture from "../public/templates/default.json";
+import { Fetcher, loadTemplate, readCachedTemplate, validateTemplate } from "./template-loader";
+import { configureStorage } from "./storage";
+
+const url = "https://example.com/templates/default.json";
+
+// Serve `body` as the template response, like fetch() would.
+const fixtureFetcher = (body: unknown, ok = true): Fetcher => {
+  return async () => ({ ok, json: async () => body } as Response);
+};
+
+beforeEach(() => {
+  configureStorage({ preferred: ["memory"] });
+  jest.spyOn(console, "error").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("validateTemplate", () => {
+  it("accepts the fixture", () => {
+    expect(validateTemplate(fixture)).toEqual({
+      value: { layout: fixture.layout, page: fixture.page },
+      errors: [],
+    });
+  });
+
+  it("refuses templates newer than this bundle", () => {
+    expect(validateTemplate({ ...fixture, schemaVersion: 99 }).value).toBeNull();
+  });
+});
+
+describe("loadTemplate", () => {
+  it("returns and caches a good template", async () => {
+    const template = await loadTemplate(url, fixtureFetcher(fixture));
+    expect(template.page.categories).toEqual(["standard", "sports", "entertainment"]);
+    expect(readCachedTemplate(url)).toEqual(template);
+  });
+
+  it("falls back to the cached copy when the request fails", async () => {
+    const cached = await loadTemplate(url, fixtureFetcher(fixture));
+    await expect(loadTemplate(url, fixtureFetcher(null, false))).resolves.toEqual(cached);
+  });
+
+  it("falls back to the cached copy when the template is invalid", async () => {
+    const cached = await loadTemplate(url, fixtureFetcher(fixture));
+    await expect(loadTemplate(url, fixtureFetcher({ schemaVersion: 1, layout: "nope" }))).resolves.toEqual(cached);
+  });
+
+  it("rejects when there is nothing cached", async () => {
+    await expect(loadTemplate(url, fixtureFetcher(null, false))).rejects.toThrow(`Request failed: ${url}`);
+  });
+});
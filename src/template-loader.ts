@@ -0,0 +1,104 @@
+import { ConfigCheck, WidgetConfig, validateLayout, validatePageConfig } from "./widget-config";
+import { getStorage } from "./storage";
+
+// Remote page templates look like:
+//
+// {
+//   "schemaVersion": 1,
+//   "layout": [ ...ValidBlockConfig... ],
+//   "page": { "categories": ["standard", "sports"] }
+// }
+//
+// Bump templateSchemaVersion whenever the format changes in a way older
+// bundles can't read; they will then refuse the template and keep using
+// their last-known-good copy.
+export const templateSchemaVersion = 1;
+
+const cacheKeyPrefix = "softbox-template:";
+
+export type Fetcher = (url: string) => Promise<Response>;
+
+// The parts of a widget's config a template replaces.
+export type PageTemplate = Pick<WidgetConfig, "layout" | "page">;
+
+type CachedTemplate = {
+  schemaVersion: number;
+  savedAt: number;
+  layout: unknown;
+  page: unknown;
+};
+
+// Validate a template response against the supported schema version,
+// ValidBlockConfig and PageConfig.
+export const validateTemplate = (raw: unknown): ConfigCheck<PageTemplate> => {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { value: null, errors: ["template must be a JSON object"] };
+  }
+  const template = raw as { [key: string]: unknown };
+  const version = template.schemaVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return { value: null, errors: ["template.schemaVersion must be a positive integer"] };
+  }
+  if (version > templateSchemaVersion) {
+    return {
+      value: null,
+      errors: [`template.schemaVersion ${version} is newer than supported version ${templateSchemaVersion}`],
+    };
+  }
+
+  const layout = validateLayout(template.layout, "template.layout");
+  const page = validatePageConfig(template.page, "template.page");
+  const errors = [...layout.errors, ...page.errors];
+  if (!layout.value || !page.value) {
+    return { value: null, errors };
+  }
+  return { value: { layout: layout.value, page: page.value }, errors };
+};
+
+const saveCachedTemplate = (url: string, config: PageTemplate) => {
+  const cached: CachedTemplate = {
+    schemaVersion: templateSchemaVersion,
+    savedAt: Date.now(),
+    layout: config.layout,
+    page: config.page,
+  };
+  if (!getStorage().setJSON(cacheKeyPrefix + url, cached)) {
+    console.warn(`Could not cache template ${url}`);
+  }
+};
+
+// Return the last-known-good template for `url`, or null if there is no
+// usable cached copy.
+export const readCachedTemplate = (url: string): PageTemplate | null => {
+  const cached = getStorage().getJSON(cacheKeyPrefix + url);
+  return cached === null ? null : validateTemplate(cached).value;
+};
+
+// Fetch and validate the template at `url`. A good response replaces the
+// cached copy; on any failure the cached copy is returned instead, and
+// the promise only rejects when there is nothing cached either.
+// `fetcher` lets tests serve the template from a local fixture.
+export const loadTemplate = async (url: string, fetcher: Fetcher = fetch): Promise<PageTemplate> => {
+  try {
+    const response = await fetcher(url);
+    if (!response.ok) {
+      throw new Error(`Request failed: ${url}`);
+    }
+    const check = validateTemplate(await response.json());
+    for (const error of check.errors) {
+      console.error(`[${url}] ${error}`);
+    }
+    if (!check.value) {
+      throw new Error(`Invalid template: ${url}`);
+    }
+    saveCachedTemplate(url, check.value);
+    return check.value;
+  } catch (err) {
+    const cached = readCachedTemplate(url);
+    if (!cached) {
+      throw err;
+    }
+    console.warn(`${(err as Error).message}, using cached template`);
+    return cached;
+  }
+};
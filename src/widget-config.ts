@@ -0,0 +1,543 @@
+import { PageConfig, ValidBlockConfig } from "./definition";
+import { layout as defaultLayout } from "./dummy-data/layout";
+import { page as defaultPage } from "./dummy-data/page-config";
+import { seedParameter } from "./rng";
+import { normalizeLocale } from "./locale";
+
+// Everything a single .softbox-widget needs to render.
+export interface WidgetConfig {
+  widgetId: string; // Stamped on every analytics event.
+  layout: ValidBlockConfig[];
+  page: PageConfig;
+  templateUrl?: string; // Remote template that replaces layout and page.
+  seed?: number; // Seed for every random choice; random when missing.
+  locale?: string; // Language to show, e.g. "pt-BR"; see locale.ts.
+}
+
+// Result of validating a config fragment: the accepted value (if any)
+// and a readable message for every problem found.
+export type ConfigCheck<T> = {
+  value: T | null;
+  errors: string[];
+};
+
+type Raw = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is Raw => {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+};
+
+const isPositiveInteger = (value: unknown) => {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+};
+
+const linkDestinations = ["fotoscape", "full_page_article", "referral", "stub"];
+
+const revealAnimations = ["fade", "slide", "flip"];
+
+const outbrainWidgetIds = [
+  "JS_1", "JS_2", "JS_3", "JS_4", "JS_5", "JS_6", "JS_9", "JS_12",
+  "JS_13", "JS_14", "JS_16", "JS_17", "JS_21", "JS_22", "JS_23",
+];
+
+const checkOptional = (
+  errors: string[],
+  settings: Raw,
+  path: string,
+  field: string,
+  type: "string" | "boolean"
+) => {
+  if (settings[field] !== undefined && typeof settings[field] !== type) {
+    errors.push(`${path}.${field} must be a ${type}`);
+  }
+};
+
+// Validate one entry of a layout against ValidBlockConfig. `path` is
+// used to prefix error messages, e.g. "layout[2]".
+export const validateBlockConfig = (raw: unknown, path: string): ConfigCheck<ValidBlockConfig> => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${path} must be an object`] };
+  }
+
+  const settings = raw.settings;
+  const settingsPath = `${path}.settings`;
+  switch (raw.blockType) {
+    case "fotoscape_block":
+      if (!isObject(settings)) {
+        errors.push(`${settingsPath} must be an object`);
+        break;
+      }
+      if (!isPositiveInteger(settings.count)) {
+        errors.push(`${settingsPath}.count must be a positive integer`);
+      }
+      if (typeof settings.layout !== "string" || settings.layout.length === 0) {
+        errors.push(`${settingsPath}.layout must be a layout name`);
+      }
+      checkOptional(errors, settings, settingsPath, "category", "string");
+      checkOptional(errors, settings, settingsPath, "title", "string");
+      checkOptional(errors, settings, settingsPath, "cta", "boolean");
+      checkOptional(errors, settings, settingsPath, "transition", "boolean");
+      if (
+        settings.link_destination !== undefined &&
+        !linkDestinations.includes(settings.link_destination as string)
+      ) {
+        errors.push(`${settingsPath}.link_destination must be one of ${linkDestinations.join(", ")}`);
+      }
+      if (settings.layout_config !== undefined && !isObject(settings.layout_config)) {
+        errors.push(`${settingsPath}.layout_config must be an object`);
+      } else if (settings.layout_config !== undefined && settings.layout_config.daily_top !== undefined) {
+        const dailyTop = settings.layout_config.daily_top;
+        const dailyTopPath = `${settingsPath}.layout_config.daily_top`;
+        if (!isObject(dailyTop)) {
+          errors.push(`${dailyTopPath} must be an object`);
+        } else {
+          for (const field of ["subtitle", "settings_icon_url", "button_title"]) {
+            if (typeof dailyTop[field] !== "string") {
+              errors.push(`${dailyTopPath}.${field} must be a string`);
+            }
+          }
+          checkOptional(errors, dailyTop, dailyTopPath, "brought_by", "boolean");
+        }
+      }
+      break;
+    case "outbrain_block":
+      if (!isObject(settings)) {
+        errors.push(`${settingsPath} must be an object`);
+        break;
+      }
+      if (!outbrainWidgetIds.includes(settings.widgetId as string)) {
+        errors.push(`${settingsPath}.widgetId must be one of ${outbrainWidgetIds.join(", ")}`);
+      }
+      if (typeof settings.layout !== "string") {
+        errors.push(`${settingsPath}.layout must be a layout name`);
+      }
+      checkOptional(errors, settings, settingsPath, "hasBranding", "boolean");
+      break;
+    case "ad_unit":
+      if (!isObject(settings)) {
+        errors.push(`${settingsPath} must be an object`);
+        break;
+      }
+      if (typeof settings.adUnitPath !== "string" || !settings.adUnitPath.startsWith("/")) {
+        errors.push(`${settingsPath}.adUnitPath must be an ad unit path such as "/1234567/unit"`);
+      }
+      if (
+        !Array.isArray(settings.sizes) ||
+        settings.sizes.length === 0 ||
+        !settings.sizes.every(
+          (size) => Array.isArray(size) && size.length === 2 && size.every(isPositiveInteger)
+        )
+      ) {
+        errors.push(`${settingsPath}.sizes must be a non-empty array of [width, height] pairs`);
+      }
+      if (
+        settings.targeting !== undefined &&
+        !(
+          isObject(settings.targeting) &&
+          Object.values(settings.targeting).every(
+            (v) => typeof v === "string" || (Array.isArray(v) && v.every((part) => typeof part === "string"))
+          )
+        )
+      ) {
+        errors.push(`${settingsPath}.targeting must map keys to strings or arrays of strings`);
+      }
+      if (
+        settings.lazyMargin !== undefined &&
+        !(typeof settings.lazyMargin === "number" && settings.lazyMargin >= 0)
+      ) {
+        errors.push(`${settingsPath}.lazyMargin must be a non-negative number of pixels`);
+      }
+      if (
+        settings.refreshSeconds !== undefined &&
+        !(typeof settings.refreshSeconds === "number" && settings.refreshSeconds >= 30)
+      ) {
+        errors.push(`${settingsPath}.refreshSeconds must be at least 30`);
+      }
+      checkOptional(errors, settings, settingsPath, "collapseEmpty", "boolean");
+      break;
+    case "memes_widget_block":
+      if (!isObject(settings)) {
+        errors.push(`${settingsPath} must be an object`);
+        break;
+      }
+      if (typeof settings.category !== "string" || settings.category.length === 0) {
+        errors.push(`${settingsPath}.category must be a sched name`);
+      }
+      if (settings.count !== undefined && !isPositiveInteger(settings.count)) {
+        errors.push(`${settingsPath}.count must be a positive integer`);
+      }
+      if (settings.animation !== undefined && !revealAnimations.includes(settings.animation as string)) {
+        errors.push(`${settingsPath}.animation must be one of ${revealAnimations.join(", ")}`);
+      }
+      break;
+    default:
+      errors.push(`${path}.blockType "${String(raw.blockType)}" is not a known block type`);
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors };
+  }
+  return { value: raw as unknown as ValidBlockConfig, errors };
+};
+
+// Validate a whole layout. Bad blocks are left out; the layout itself is
+// rejected only if it isn't a non-empty array.
+export const validateLayout = (raw: unknown, path = "layout"): ConfigCheck<ValidBlockConfig[]> => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { value: null, errors: [`${path} must be a non-empty array of blocks`] };
+  }
+  const errors: string[] = [];
+  const blocks: ValidBlockConfig[] = [];
+  raw.forEach((block, index) => {
+    const check = validateBlockConfig(block, `${path}[${index}]`);
+    errors.push(...check.errors);
+    if (check.value) {
+      blocks.push(check.value);
+    }
+  });
+  return { value: blocks.length > 0 ? blocks : null, errors };
+};
+
+const checkSourceConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return [`${path} must be an object`];
+  }
+  switch (raw.type) {
+    case "fotoscapes":
+      for (const field of ["baseUrl", "ckey", "previewAspect"]) {
+        checkOptional(errors, raw, path, field, "string");
+      }
+      if (
+        raw.params !== undefined &&
+        !(isObject(raw.params) && Object.values(raw.params).every((v) => typeof v === "string"))
+      ) {
+        errors.push(`${path}.params must map names to string values`);
+      }
+      break;
+    case "fixture":
+      break;
+    case "custom":
+      if (typeof raw.name !== "string" || raw.name.length === 0) {
+        errors.push(`${path}.name must name a registered content source`);
+      }
+      break;
+    default:
+      errors.push(`${path}.type must be one of fotoscapes, fixture, custom`);
+  }
+  return errors;
+};
+
+const checkAssignmentConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return [`${path} must be an object`];
+  }
+  if (!["round-robin", "weighted", "interest"].includes(raw.strategy as string)) {
+    errors.push(`${path}.strategy must be one of round-robin, weighted, interest`);
+  }
+  if (
+    raw.weights !== undefined &&
+    !(isObject(raw.weights) && Object.values(raw.weights).every((v) => typeof v === "number" && v >= 0))
+  ) {
+    errors.push(`${path}.weights must map categories to non-negative numbers`);
+  }
+  if (
+    raw.categoryInterests !== undefined &&
+    !(
+      isObject(raw.categoryInterests) &&
+      Object.values(raw.categoryInterests).every(
+        (v) => Array.isArray(v) && v.every((interest) => typeof interest === "string")
+      )
+    )
+  ) {
+    errors.push(`${path}.categoryInterests must map categories to arrays of interest uids`);
+  }
+  // Without the mapping every category scores 0 and the order is left
+  // to the tie-breaker.
+  if (raw.strategy === "interest" && raw.categoryInterests === undefined) {
+    errors.push(`${path}.categoryInterests is required by the interest strategy`);
+  }
+  return errors;
+};
+
+const checkImpressionConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return [`${path} must be an object`];
+  }
+  const percent = raw.visiblePercent;
+  if (percent !== undefined && !(typeof percent === "number" && percent > 0 && percent <= 100)) {
+    errors.push(`${path}.visiblePercent must be a number between 0 and 100`);
+  }
+  if (raw.dwellMs !== undefined && !(typeof raw.dwellMs === "number" && raw.dwellMs >= 0)) {
+    errors.push(`${path}.dwellMs must be a non-negative number`);
+  }
+  checkOptional(errors, raw, path, "negativeSignal", "boolean");
+  return errors;
+};
+
+const checkHistoryConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return [`${path} must be an object`];
+  }
+  if (raw.mode !== undefined && !["push_down", "exclude", "off"].includes(raw.mode as string)) {
+    errors.push(`${path}.mode must be one of push_down, exclude, off`);
+  }
+  for (const field of ["click_cooldown", "impression_cooldown", "promote_cooldown"]) {
+    const value = raw[field];
+    if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+      errors.push(`${path}.${field} must be a non-negative number of hours`);
+    }
+  }
+  const penalty = raw.penalty;
+  if (penalty !== undefined && !(typeof penalty === "number" && penalty > 0 && penalty <= 1)) {
+    errors.push(`${path}.penalty must be a number above 0 and at most 1`);
+  }
+  if (raw.max_entries !== undefined && !isPositiveInteger(raw.max_entries)) {
+    errors.push(`${path}.max_entries must be a positive integer`);
+  }
+  return errors;
+};
+
+const checkPartnerConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw)) {
+    return [`${path} must be an object`];
+  }
+  checkOptional(errors, raw, path, "outbrainScriptUrl", "string");
+  checkOptional(errors, raw, path, "gptScriptUrl", "string");
+  if (raw.timeoutMs !== undefined && !isPositiveInteger(raw.timeoutMs)) {
+    errors.push(`${path}.timeoutMs must be a positive integer`);
+  }
+  return errors;
+};
+
+const checkAnalyticsConfig = (raw: unknown, path: string) => {
+  const errors: string[] = [];
+  if (!isObject(raw) || !Array.isArray(raw.sinks)) {
+    return [`${path}.sinks must be an array`];
+  }
+  raw.sinks.forEach((sink: unknown, index: number) => {
+    const sinkPath = `${path}.sinks[${index}]`;
+    if (!isObject(sink)) {
+      errors.push(`${sinkPath} must be an object`);
+      return;
+    }
+    if (!["dataLayer", "beacon", "console", "memory"].includes(sink.type as string)) {
+      errors.push(`${sinkPath}.type must be one of dataLayer, beacon, console, memory`);
+    }
+    if (sink.type === "beacon" && (typeof sink.url !== "string" || sink.url.length === 0)) {
+      errors.push(`${sinkPath}.url is required for beacon sinks`);
+    }
+    const rate = sink.sampleRate;
+    if (rate !== undefined && !(typeof rate === "number" && rate >= 0 && rate <= 1)) {
+      errors.push(`${sinkPath}.sampleRate must be between 0 and 1`);
+    }
+    if (sink.batchSize !== undefined && !isPositiveInteger(sink.batchSize)) {
+      errors.push(`${sinkPath}.batchSize must be a positive integer`);
+    }
+    if (sink.flushMs !== undefined && !isPositiveInteger(sink.flushMs)) {
+      errors.push(`${sinkPath}.flushMs must be a positive integer`);
+    }
+  });
+  return errors;
+};
+
+// Validate a PageConfig.
+export const validatePageConfig = (raw: unknown, path = "page"): ConfigCheck<PageConfig> => {
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${path} must be an object`] };
+  }
+  const errors: string[] = [];
+  const categories = raw.categories;
+  if (
+    !Array.isArray(categories) ||
+    categories.length === 0 ||
+    !categories.every((category) => typeof category === "string" && category.length > 0)
+  ) {
+    errors.push(`${path}.categories must be a non-empty array of sched names`);
+  }
+  if (raw.feedKey !== undefined && (typeof raw.feedKey !== "string" || raw.feedKey.length === 0)) {
+    errors.push(`${path}.feedKey must be a non-empty string`);
+  }
+  if (raw.source !== undefined) {
+    errors.push(...checkSourceConfig(raw.source, `${path}.source`));
+  }
+  if (raw.analytics !== undefined) {
+    errors.push(...checkAnalyticsConfig(raw.analytics, `${path}.analytics`));
+  }
+  if (raw.impressions !== undefined) {
+    errors.push(...checkImpressionConfig(raw.impressions, `${path}.impressions`));
+  }
+  if (raw.assignment !== undefined) {
+    errors.push(...checkAssignmentConfig(raw.assignment, `${path}.assignment`));
+  }
+  if (raw.history !== undefined) {
+    errors.push(...checkHistoryConfig(raw.history, `${path}.history`));
+  }
+  if (raw.partners !== undefined) {
+    errors.push(...checkPartnerConfig(raw.partners, `${path}.partners`));
+  }
+  const coordinate = raw.coordinate;
+  if (
+    coordinate !== undefined &&
+    typeof coordinate !== "boolean" &&
+    !(typeof coordinate === "string" && coordinate.length > 0)
+  ) {
+    errors.push(`${path}.coordinate must be a boolean or a non-empty group name`);
+  }
+  if (errors.length > 0) {
+    return { value: null, errors };
+  }
+  return { value: raw as unknown as PageConfig, errors };
+};
+
+const splitList = (value: string) => {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+};
+
+// Build a raw config from data attributes:
+//
+//   data-categories="standard,sports"  page.categories
+//   data-feed-key="fb529d256155b9c6"   page.feedKey
+//   data-layout="small-photocard,tile" one fotoscape_block per layout
+//   data-count="1,6"                   counts per layout (or one for all)
+//   data-template-url="https://..."    remote template (template-loader.ts)
+//   data-seed="12345"                  seed for the widget's random choices
+//   data-coordinate="top" (or empty)   page.coordinate group (or true)
+//   data-locale="ar"                   language to show
+const readDataAttributes = (element: HTMLElement) => {
+  const data = element.dataset;
+  const config: {
+    layout?: unknown;
+    page?: Raw;
+    templateUrl?: string;
+    seed?: unknown;
+    locale?: string;
+    coordinate?: string | true;
+  } = {};
+  config.templateUrl = data.templateUrl;
+  config.locale = data.locale;
+  // Also applies to a page from inline JSON or the defaults, so it
+  // isn't tied to data-categories.
+  if (data.coordinate !== undefined) {
+    config.coordinate = data.coordinate || true;
+  }
+  if (data.seed !== undefined) {
+    config.seed = Number(data.seed);
+  }
+
+  if (data.categories !== undefined || data.feedKey !== undefined) {
+    config.page = {};
+    if (data.categories !== undefined) {
+      config.page.categories = splitList(data.categories);
+    }
+    if (data.feedKey !== undefined) {
+      config.page.feedKey = data.feedKey;
+    }
+  }
+
+  if (data.layout !== undefined) {
+    const counts = splitList(data.count ?? "").map(Number);
+    config.layout = splitList(data.layout).map((layout, index) => ({
+      blockType: "fotoscape_block",
+      settings: {
+        layout,
+        count: counts.length === 1 ? counts[0] : counts[index] ?? 4,
+      },
+    }));
+  }
+  return config;
+};
+
+// A seed in the page URL overrides every widget's own, so QA can
+// replay a reported selection.
+const readSeedParameter = () => {
+  const value = new URLSearchParams(window.location.search).get(seedParameter);
+  return value === null ? undefined : Number(value);
+};
+
+// Parse the inline <script type="application/json"> config, if present.
+const readScriptConfig = (element: HTMLElement, errors: string[]) => {
+  const script = element.querySelector('script[type="application/json"]');
+  if (!script) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(script.textContent ?? "");
+    if (!isObject(parsed)) {
+      errors.push("inline config must be a JSON object");
+      return {};
+    }
+    return parsed;
+  } catch (err) {
+    errors.push(`inline config is not valid JSON: ${(err as Error).message}`);
+    return {};
+  }
+};
+
+// Read the configuration a host page supplied for one widget. Inline
+// JSON wins over data attributes; anything missing or invalid falls
+// back to the built-in defaults, and every problem is reported on the
+// console. The widget id is the element's id or data-widget-id, else
+// `fallbackId`.
+export const readWidgetConfig = (element: HTMLElement, fallbackId: string): WidgetConfig => {
+  const widgetId = element.id || element.dataset.widgetId || fallbackId;
+  const errors: string[] = [];
+  const fromScript = readScriptConfig(element, errors);
+  const fromData = readDataAttributes(element);
+  const raw = {
+    layout: fromScript.layout ?? fromData.layout,
+    page: fromScript.page ?? fromData.page,
+    templateUrl: fromScript.templateUrl ?? fromData.templateUrl,
+    seed: readSeedParameter() ?? fromScript.seed ?? fromData.seed,
+    locale: fromScript.locale ?? fromData.locale,
+  };
+
+  const config: WidgetConfig = { widgetId, layout: defaultLayout, page: defaultPage };
+  if (raw.templateUrl !== undefined) {
+    if (typeof raw.templateUrl === "string" && raw.templateUrl.length > 0) {
+      config.templateUrl = raw.templateUrl;
+    } else {
+      errors.push("templateUrl must be a non-empty string");
+    }
+  }
+  if (raw.seed !== undefined) {
+    if (typeof raw.seed === "number" && Number.isInteger(raw.seed) && raw.seed >= 0) {
+      config.seed = raw.seed >>> 0;
+    } else {
+      errors.push("seed must be a non-negative integer");
+    }
+  }
+  if (raw.locale !== undefined) {
+    if (typeof raw.locale === "string" && normalizeLocale(raw.locale)) {
+      config.locale = normalizeLocale(raw.locale);
+    } else {
+      errors.push("locale must be a language tag such as \"en\" or \"pt-BR\"");
+    }
+  }
+  if (raw.layout !== undefined) {
+    const check = validateLayout(raw.layout);
+    errors.push(...check.errors);
+    config.layout = check.value ?? defaultLayout;
+  }
+  if (raw.page !== undefined) {
+    const check = validatePageConfig(raw.page);
+    errors.push(...check.errors);
+    config.page = check.value ?? defaultPage;
+  }
+  if (fromData.coordinate !== undefined && config.page.coordinate === undefined) {
+    config.page = { ...config.page, coordinate: fromData.coordinate };
+  }
+
+  for (const error of errors) {
+    console.error(`[${widgetId}] ${error}`);
+  }
+  return config;
+};